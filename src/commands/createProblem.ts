@@ -3,24 +3,28 @@ import { BojService } from '../services/BojService';
 import { SolvedAcService } from '../services/SolvedAcService';
 import { TemplateService } from '../services/TemplateService';
 import { TimerService } from '../services/TimerService';
-import { SupportedLanguage, LANGUAGE_CONFIG, getTierName } from '../types';
+import { AuthService } from '../services/AuthService';
+import { LANGUAGE_CONFIG, SELECTABLE_LANGUAGES, getTierName } from '../types';
 
 export class CreateProblemCommand {
   private bojService: BojService;
   private solvedAcService: SolvedAcService;
   private templateService: TemplateService;
   private timerService: TimerService;
+  private authService: AuthService;
 
   constructor(
     bojService: BojService,
     solvedAcService: SolvedAcService,
     templateService: TemplateService,
-    timerService: TimerService
+    timerService: TimerService,
+    authService: AuthService
   ) {
     this.bojService = bojService;
     this.solvedAcService = solvedAcService;
     this.templateService = templateService;
     this.timerService = timerService;
+    this.authService = authService;
   }
 
   async execute(problemId?: string): Promise<void> {
@@ -42,14 +46,13 @@ export class CreateProblemCommand {
       return;
     }
 
-    // 언어 선택
-    const config = vscode.workspace.getConfiguration('bojmate');
-    const defaultLanguage = config.get<string>('language', 'py');
+    // 언어 선택 (기본 언어는 현재 계정 설정)
+    const defaultLanguage = this.authService.getDefaultLanguage();
 
-    const languageItems = Object.entries(LANGUAGE_CONFIG).map(([key, config]) => ({
-      label: config.name,
-      description: config.extension,
-      value: key as SupportedLanguage
+    const languageItems = SELECTABLE_LANGUAGES.map((key) => ({
+      label: LANGUAGE_CONFIG[key].name,
+      description: key === defaultLanguage ? `${LANGUAGE_CONFIG[key].extension} · 기본` : LANGUAGE_CONFIG[key].extension,
+      value: key
     }));
 
     const selectedLanguage = await vscode.window.showQuickPick(languageItems, {
@@ -57,7 +60,7 @@ export class CreateProblemCommand {
       title: '언어 선택'
     });
 
-    const language = selectedLanguage?.value || (defaultLanguage as SupportedLanguage);
+    const language = selectedLanguage?.value || defaultLanguage;
 
     // 진행 표시
     const result = await vscode.window.withProgress(
@@ -95,7 +98,7 @@ export class CreateProblemCommand {
           const document = await vscode.workspace.openTextDocument(codePath);
           await vscode.window.showTextDocument(document);
 
-          return { problem, tier, tierName };
+          return { problem, tier, tierName, tags };
         } catch (error) {
           vscode.window.showErrorMessage(`문제 생성 실패: ${error}`);
           return null;
@@ -117,7 +120,8 @@ export class CreateProblemCommand {
           result.problem.title,
           result.tier,
           result.tierName,
-          language
+          language,
+          result.tags
         );
       }
     }
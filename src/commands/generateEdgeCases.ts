@@ -0,0 +1,255 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CodeRunner, detectLanguage, isInsideWorkspace } from '../utils/compiler';
+import { EdgeCase, parseEdgeCases, parseInputConstraints, validateEdgeCase } from '../utils/edgeCases';
+import { BojService } from '../services/BojService';
+import { AIService } from '../services/AIService';
+import { TemplateService } from '../services/TemplateService';
+import { TestCaseService, TestData } from '../services/TestCaseService';
+import { DiagnosticsService } from '../services/DiagnosticsService';
+
+const DEFAULT_COUNT = 5;
+const MAX_COUNT = 10;
+
+/**
+ * AI로 엣지 케이스 입력을 만들고, 정답 코드로 출력을 계산해 커스텀 테스트로 추가
+ */
+export class GenerateEdgeCasesCommand {
+  private codeRunner: CodeRunner;
+  private bojService: BojService;
+  private aiService: AIService;
+  private templateService: TemplateService;
+  private testCaseService: TestCaseService;
+
+  constructor(
+    bojService: BojService,
+    aiService: AIService,
+    templateService: TemplateService,
+    testCaseService: TestCaseService,
+    diagnostics: DiagnosticsService
+  ) {
+    this.codeRunner = new CodeRunner(diagnostics);
+    this.bojService = bojService;
+    this.aiService = aiService;
+    this.templateService = templateService;
+    this.testCaseService = testCaseService;
+  }
+
+  async execute(filePath?: string): Promise<void> {
+    if (!this.aiService.isEnabled()) {
+      const action = await vscode.window.showWarningMessage(
+        'AI 기능이 비활성화되어 있습니다.',
+        'AI 설정 열기'
+      );
+      if (action) {
+        vscode.commands.executeCommand('bojmate.configureAI');
+      }
+      return;
+    }
+
+    if (!filePath) {
+      const activeEditor = vscode.window.activeTextEditor;
+      if (!activeEditor) {
+        vscode.window.showErrorMessage('열린 파일이 없습니다.');
+        return;
+      }
+      filePath = activeEditor.document.uri.fsPath;
+    }
+
+    const problemId = this.templateService.findProblemIdFromPath(filePath);
+    if (!problemId) {
+      vscode.window.showErrorMessage('파일 경로에서 문제 번호를 찾을 수 없습니다.');
+      return;
+    }
+
+    let testData: TestData;
+    try {
+      testData = this.testCaseService.loadTestData(filePath);
+    } catch (error) {
+      vscode.window.showErrorMessage(`${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    const { timeLimitMs, interactive } = testData;
+    if (interactive) {
+      vscode.window.showErrorMessage('인터랙티브 문제는 엣지 케이스 생성을 지원하지 않습니다.');
+      return;
+    }
+
+    const countInput = await vscode.window.showInputBox({
+      prompt: `만들 엣지 케이스 수 (최대 ${MAX_COUNT}개)`,
+      value: String(DEFAULT_COUNT),
+      validateInput: (value) =>
+        /^\d+$/.test(value) && parseInt(value) >= 1 && parseInt(value) <= MAX_COUNT
+          ? null
+          : `1 ~ ${MAX_COUNT} 사이의 정수를 입력하세요`
+    });
+    if (!countInput) {
+      return;
+    }
+    const count = parseInt(countInput);
+
+    const referencePath = await this.pickReference(filePath, problemId);
+    if (!referencePath) {
+      return;
+    }
+
+    try {
+      const problem = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Window,
+          title: `문제 ${problemId} 로딩 중...`
+        },
+        () => this.bojService.getProblem(problemId)
+      );
+
+      const cases = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: 'AI 엣지 케이스 생성 중...',
+          cancellable: true
+        },
+        (progress, token) => this.aiService.generateEdgeCases(problem, count, {
+          onDelta: (content) => progress.report({ message: `${parseEdgeCases(content).length}/${count}` }),
+          token
+        })
+      );
+      if (cases.length === 0) {
+        return;
+      }
+
+      // 제약 조건을 어긴 것으로 보이는 입력은 기본으로 선택하지 않는다
+      const constraints = parseInputConstraints(problem.input);
+      const samples = problem.testCases.map((tc) => tc.input);
+      const items = cases.map((edgeCase) => {
+        const problems = validateEdgeCase(edgeCase.input, samples, constraints);
+        return {
+          label: problems.length > 0 ? `$(warning) ${edgeCase.name}` : edgeCase.name,
+          description: this.preview(edgeCase.input),
+          detail: problems.length > 0 ? problems.join(' · ') : undefined,
+          picked: problems.length === 0,
+          edgeCase
+        };
+      });
+
+      const selected = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: '커스텀 테스트로 추가할 입력 선택 (⚠ 제약 조건 위반 의심)'
+      });
+      if (!selected || selected.length === 0) {
+        return;
+      }
+
+      await this.addWithReference(filePath, referencePath, selected.map((item) => item.edgeCase), timeLimitMs);
+    } catch (error) {
+      vscode.window.showErrorMessage(`엣지 케이스 생성 실패: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * 정답 코드 선택 (스트레스 테스트에 쓴 정답 코드가 있으면 먼저 제안)
+   */
+  private async pickReference(filePath: string, problemId: string): Promise<string | undefined> {
+    const previous = this.templateService.getMetadataById(problemId)?.stressTest?.referencePath;
+    if (previous) {
+      const choice = await vscode.window.showQuickPick(
+        [
+          { label: '스트레스 테스트 정답 코드 사용', description: path.basename(previous), value: true },
+          { label: '파일 선택...', value: false }
+        ],
+        { placeHolder: '출력을 계산할 정답 코드' }
+      );
+      if (!choice) {
+        return undefined;
+      }
+      if (choice.value) {
+        return previous;
+      }
+    }
+
+    const uri = await vscode.window.showOpenDialog({
+      canSelectFiles: true,
+      canSelectMany: false,
+      defaultUri: vscode.Uri.file(path.dirname(filePath)),
+      openLabel: '정답 코드 선택',
+      title: '출력을 계산할 정답 코드 (AI는 입력만 만듭니다)'
+    });
+    if (!uri || uri.length === 0) {
+      return undefined;
+    }
+    if (!detectLanguage(uri[0].fsPath)) {
+      vscode.window.showErrorMessage(`지원하지 않는 언어입니다: ${path.basename(uri[0].fsPath)}`);
+      return undefined;
+    }
+    if (!isInsideWorkspace(uri[0].fsPath)) {
+      vscode.window.showErrorMessage(`워크스페이스 밖의 정답 코드는 실행할 수 없습니다: ${path.basename(uri[0].fsPath)}`);
+      return undefined;
+    }
+    return uri[0].fsPath;
+  }
+
+  /**
+   * 정답 코드를 실행해 출력을 만들고 커스텀 테스트로 저장
+   * 정답 코드가 실패한 입력은 잘못된 입력일 가능성이 높으므로 추가하지 않는다.
+   */
+  private async addWithReference(
+    filePath: string,
+    referencePath: string,
+    cases: EdgeCase[],
+    timeLimitMs: number | undefined
+  ): Promise<void> {
+    const failures: string[] = [];
+    let added = 0;
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `정답 코드 실행 (${path.basename(referencePath)})`
+      },
+      async (progress) => {
+        progress.report({ message: '컴파일 중...' });
+        const reference = await this.codeRunner.prepareProgram(referencePath, '정답 코드');
+        if ('error' in reference) {
+          throw new Error(reference.error);
+        }
+
+        try {
+          for (const edgeCase of cases) {
+            progress.report({ message: edgeCase.name, increment: 100 / cases.length });
+            const result = await this.codeRunner.execute(
+              reference.filePath, reference.language, edgeCase.input, reference.outputPath, { timeLimitMs }
+            );
+            if (result.timeout || result.exitCode !== 0) {
+              failures.push(`${edgeCase.name} (${result.timeout ? '시간 초과' : `exit code ${result.exitCode}`})`);
+              continue;
+            }
+            this.testCaseService.addCustomTest(filePath, edgeCase.input, result.stdout, `AI: ${edgeCase.name}`);
+            added++;
+          }
+        } finally {
+          this.codeRunner.cleanup(reference.outputPath);
+        }
+      }
+    );
+
+    if (failures.length > 0) {
+      vscode.window.showWarningMessage(`정답 코드가 실패해 추가하지 않은 입력: ${failures.join(', ')}`);
+    }
+    if (added > 0) {
+      const action = await vscode.window.showInformationMessage(
+        `✅ 엣지 케이스 ${added}개를 커스텀 테스트로 추가했습니다.`,
+        '테스트 실행',
+        '테스트 케이스 관리'
+      );
+      if (action === '테스트 실행') {
+        vscode.commands.executeCommand('bojmate.runTests', filePath);
+      } else if (action) {
+        vscode.commands.executeCommand('bojmate.manageTestCases', filePath);
+      }
+    }
+  }
+
+  private preview(input: string): string {
+    const text = input.trim().replace(/\s+/g, ' ');
+    return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+  }
+}
@@ -4,7 +4,7 @@ import { SolvedAcService } from '../services/SolvedAcService';
 import { AIService } from '../services/AIService';
 import { TemplateService } from '../services/TemplateService';
 import { getTierName } from '../types';
-import { markdownToHtml, webviewStyles } from '../utils/markdown';
+import { AIResponsePanel } from '../providers/AIResponsePanel';
 
 export class GetFeedbackCommand {
   private bojService: BojService;
@@ -67,9 +67,10 @@ export class GetFeedbackCommand {
       {
         location: vscode.ProgressLocation.Notification,
         title: 'AI 피드백 생성 중...',
-        cancellable: false
+        cancellable: true
       },
-      async () => {
+      async (_progress, token) => {
+        let panel: AIResponsePanel | undefined;
         try {
           const problem = await this.bojService.getProblem(problemId);
           const solvedInfo = await this.solvedAcService.getProblemInfo(problemId);
@@ -78,35 +79,32 @@ export class GetFeedbackCommand {
             problem.tierName = getTierName(solvedInfo.level);
             problem.tags = this.solvedAcService.getTagsKorean(solvedInfo);
           }
+          if (token.isCancellationRequested) {
+            return;
+          }
 
-          const feedback = await this.aiService.getFeedback(problem, code, language);
-
-          // Webview에 표시
-          const panel = vscode.window.createWebviewPanel(
+          // Webview에 생성되는 대로 표시
+          panel = new AIResponsePanel(
             'bojmateFeedback',
             `피드백: ${problemId}번`,
-            vscode.ViewColumn.Beside,
-            {}
+            `<h1>#${this.escapeHtml(problemId)} ${this.escapeHtml(problem.title)}</h1>\n` +
+            `  <span class="badge">${this.escapeHtml(language)}</span>`
           );
-
-          const feedbackHtml = markdownToHtml(feedback);
-          panel.webview.html = `<!DOCTYPE html>
-<html lang="ko">
-<head>
-  <meta charset="UTF-8">
-  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
-  <style>${webviewStyles()}</style>
-</head>
-<body>
-  <h1>#${this.escapeHtml(problemId)} ${this.escapeHtml(problem.title)}</h1>
-  <span class="badge">${this.escapeHtml(language)}</span>
-  <div class="markdown-body">${feedbackHtml}</div>
-</body>
-</html>`;
-
-          // 코드 파일에 주석으로 추가
-          await this.appendFeedbackToCode(filePath!, feedback, language);
+          const responsePanel = panel;
+          token.onCancellationRequested(() => responsePanel.cancel());
+
+          const feedback = await this.aiService.getFeedback(problem, code, language, {
+            onDelta: (content) => responsePanel.update(content),
+            token: responsePanel.token
+          });
+          responsePanel.finish(feedback);
+
+          // 코드 파일에 주석으로 추가 (중단된 피드백은 추가하지 않음)
+          if (!responsePanel.token.isCancellationRequested) {
+            await this.appendFeedbackToCode(filePath!, feedback, language);
+          }
         } catch (error) {
+          panel?.dispose();
           vscode.window.showErrorMessage(`피드백 생성 실패: ${error}`);
         }
       }
@@ -117,7 +115,8 @@ export class GetFeedbackCommand {
     const ext = filePath.split('.').pop()?.toLowerCase();
     const langMap: Record<string, string> = {
       py: 'Python', cpp: 'C++', cc: 'C++', c: 'C',
-      java: 'Java', js: 'JavaScript', rs: 'Rust'
+      java: 'Java', kt: 'Kotlin', js: 'JavaScript', rs: 'Rust',
+      go: 'Go', cs: 'C#', swift: 'Swift', rb: 'Ruby'
     };
     return langMap[ext || ''] || ext || 'Unknown';
   }
@@ -154,6 +153,9 @@ export class GetFeedbackCommand {
     if (language === 'Python') {
       return { start: '"""', line: '', end: '"""' };
     }
+    if (language === 'Ruby') {
+      return { start: '=begin', line: '', end: '=end' };
+    }
     return { start: '/*', line: ' *', end: ' */' };
   }
 }
@@ -4,24 +4,28 @@ import { SolvedAcService } from '../services/SolvedAcService';
 import { AIService } from '../services/AIService';
 import { TemplateService } from '../services/TemplateService';
 import { HintLevel, getTierName } from '../types';
-import { markdownToHtml, webviewStyles } from '../utils/markdown';
+import { HintChatProvider, HintRequest } from '../providers/HintChatProvider';
+import { HINT_LADDER, HINT_LEVEL_LABELS } from '../utils/hintLadder';
 
 export class GetHintCommand {
   private bojService: BojService;
   private solvedAcService: SolvedAcService;
   private aiService: AIService;
   private templateService: TemplateService;
+  private hintChatProvider: HintChatProvider;
 
   constructor(
     bojService: BojService,
     solvedAcService: SolvedAcService,
     aiService: AIService,
-    templateService: TemplateService
+    templateService: TemplateService,
+    hintChatProvider: HintChatProvider
   ) {
     this.bojService = bojService;
     this.solvedAcService = solvedAcService;
     this.aiService = aiService;
     this.templateService = templateService;
+    this.hintChatProvider = hintChatProvider;
   }
 
   async execute(problemId?: string): Promise<void> {
@@ -55,40 +59,71 @@ export class GetHintCommand {
       return;
     }
 
-    const levelItems: { label: string; description: string; value: HintLevel | 'custom' }[] = [
+    // 이전 대화가 있으면 이어서 보거나 한 단계 더 물어볼 수 있다
+    const hasConversation = this.hintChatProvider.getConversation(problemId).length > 0;
+    const levelItems: { label: string; description: string; value: HintLevel | 'more' | 'continue' | 'custom' }[] = [
+      ...(hasConversation ? [
+        { label: '이어서 대화', description: '지난 힌트 대화 열기', value: 'continue' as const },
+        { label: '지난 힌트보다 한 단계 더', description: '이전 대화에 이어서', value: 'more' as const }
+      ] : []),
       { label: '알고리즘 분류', description: '어떤 알고리즘인지만', value: 'algorithm' },
       { label: '단계별 힌트', description: '풀이 과정 안내 (코드 없음)', value: 'stepByStep' },
       { label: '전체 풀이', description: '풀이 + 코드', value: 'fullSolution' },
       { label: '직접 질문', description: '원하는 질문을 직접 입력', value: 'custom' }
     ];
 
+    // 사다리 모드면 아직 열리지 않은 단계를 표시 (고르면 힌트 패널에서 이유를 알려준다)
+    const ladder = this.hintChatProvider.getLadderState(problemId);
+    if (ladder) {
+      const solving = this.hintChatProvider.isSolving(problemId);
+      for (const item of levelItems) {
+        const level = item.value as HintLevel;
+        if (item.value === 'more' && ladder.next) {
+          item.description = `다음 단계: ${HINT_LEVEL_LABELS[ladder.next]}`;
+        } else if (!HINT_LADDER.includes(level) || ladder.unlocked.includes(level)) {
+          continue;
+        } else if (level !== ladder.next) {
+          item.label = `🔒 ${item.label}`;
+          item.description = '이전 단계를 먼저 받아야 합니다';
+        } else if (!solving) {
+          item.label = `🔒 ${item.label}`;
+          item.description = '풀이 타이머를 시작하면 열림';
+        } else if (ladder.waitMs > 0) {
+          item.label = `🔒 ${item.label}`;
+          item.description = `${Math.ceil(ladder.waitMs / 60000)}분 뒤에 열림`;
+        }
+      }
+    }
+
     const selectedLevel = await vscode.window.showQuickPick(levelItems, {
-      placeHolder: '힌트 레벨 선택'
+      placeHolder: ladder ? '힌트 레벨 선택 (힌트 사다리 모드)' : '힌트 레벨 선택'
     });
 
     if (!selectedLevel) {
       return;
     }
 
-    let customPrompt: string | undefined;
+    let request: HintRequest | undefined;
     if (selectedLevel.value === 'custom') {
-      customPrompt = await vscode.window.showInputBox({
+      const question = await vscode.window.showInputBox({
         prompt: '질문을 입력하세요 (문제 정보와 현재 코드가 함께 전달됩니다)',
         placeHolder: '예: 이 문제에서 DP 테이블을 어떻게 정의해야 하나요?'
       });
-      if (!customPrompt) {
+      if (!question) {
         return;
       }
+      request = { question };
+    } else if (selectedLevel.value !== 'continue') {
+      request = { question: this.aiService.getHintRequest(selectedLevel.value), level: selectedLevel.value };
     }
 
-    await vscode.window.withProgress(
-      {
-        location: vscode.ProgressLocation.Notification,
-        title: 'AI 힌트 생성 중...',
-        cancellable: false
-      },
-      async () => {
-        try {
+    try {
+      const problem = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Window,
+          title: `문제 ${problemId} 로딩 중...`
+        },
+        async () => {
           const problem = await this.bojService.getProblem(problemId!);
           const solvedInfo = await this.solvedAcService.getProblemInfo(problemId!);
           if (solvedInfo) {
@@ -96,49 +131,13 @@ export class GetHintCommand {
             problem.tierName = getTierName(solvedInfo.level);
             problem.tags = this.solvedAcService.getTagsKorean(solvedInfo);
           }
-
-          // 현재 열린 파일의 코드를 가져옴 (작성 중인 코드가 있으면 맞춤 힌트)
-          let userCode: string | undefined;
-          const activeEditor = vscode.window.activeTextEditor;
-          if (activeEditor) {
-            const code = activeEditor.document.getText().trim();
-            // 템플릿만 있는 수준(5줄 이하)이면 코드 없는 것으로 취급
-            if (code && code.split('\n').length > 5) {
-              userCode = code;
-            }
-          }
-
-          const hintLevel: HintLevel = selectedLevel.value === 'custom' ? 'stepByStep' : selectedLevel.value;
-          const hint = await this.aiService.getHint(problem, hintLevel, userCode, customPrompt);
-
-          const panel = vscode.window.createWebviewPanel(
-            'bojmateHint',
-            `힌트: ${problemId}번`,
-            vscode.ViewColumn.Beside,
-            {}
-          );
-
-          const contentHtml = markdownToHtml(hint.content);
-          panel.webview.html = `<!DOCTYPE html>
-<html lang="ko">
-<head>
-  <meta charset="UTF-8">
-  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
-  <style>${webviewStyles()}</style>
-</head>
-<body>
-  <h1>#${this.escapeHtml(problemId!)} ${this.escapeHtml(problem.title)}</h1>
-  <div class="markdown-body">${contentHtml}</div>
-</body>
-</html>`;
-        } catch (error) {
-          vscode.window.showErrorMessage(`힌트 생성 실패: ${error}`);
+          return problem;
         }
-      }
-    );
-  }
+      );
 
-  private escapeHtml(text: string): string {
-    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+      await this.hintChatProvider.show(problem, request);
+    } catch (error) {
+      vscode.window.showErrorMessage(`힌트 생성 실패: ${error}`);
+    }
   }
 }
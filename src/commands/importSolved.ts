@@ -0,0 +1,146 @@
+import * as vscode from 'vscode';
+import { SolvedAcService, SEARCH_PAGE_SIZE } from '../services/SolvedAcService';
+import { TimerService } from '../services/TimerService';
+import { AuthService, accountStorageKey } from '../services/AuthService';
+import { SolveRecord, SolvedAcProblem, getTierName } from '../types';
+
+const IMPORT_SYNC_KEY = 'bojmate.importSync';
+
+interface ImportSyncState {
+  handle: string;
+  solvedCount: number; // 마지막 동기화 때 solved.ac의 푼 문제 수
+  syncedAt: number;
+}
+
+/**
+ * solved.ac에서 푼 문제 목록을 가져와 통계에 반영
+ * 푼 문제 수가 그대로면 건너뛰고, 늘었으면 새로 푼 문제를 모두 찾을 때까지만 조회한다.
+ */
+export class ImportSolvedCommand {
+  private context: vscode.ExtensionContext;
+  private solvedAcService: SolvedAcService;
+  private timerService: TimerService;
+  private authService: AuthService;
+
+  constructor(
+    context: vscode.ExtensionContext,
+    solvedAcService: SolvedAcService,
+    timerService: TimerService,
+    authService: AuthService
+  ) {
+    this.context = context;
+    this.solvedAcService = solvedAcService;
+    this.timerService = timerService;
+    this.authService = authService;
+  }
+
+  async execute(): Promise<void> {
+    const handle = this.authService.getUsername();
+    if (!handle) {
+      vscode.window.showWarningMessage(
+        `${this.authService.getActiveAccount().name} 계정의 백준 아이디가 설정되지 않았습니다.`
+      );
+      return;
+    }
+
+    const user = await this.solvedAcService.getUserStats(handle);
+    if (!user) {
+      vscode.window.showErrorMessage(`solved.ac에서 ${handle} 사용자를 찾을 수 없습니다.`);
+      return;
+    }
+
+    const syncKey = accountStorageKey(IMPORT_SYNC_KEY, this.authService.getActiveAccount().name);
+    const previous = this.context.globalState.get<ImportSyncState>(syncKey);
+    const isIncremental = previous?.handle === handle;
+    if (isIncremental && previous.solvedCount === user.solvedCount) {
+      vscode.window.showInformationMessage(`이미 최신 상태입니다. (${handle}: ${user.solvedCount}문제)`);
+      return;
+    }
+
+    const solvedRecords = (await this.timerService.getAllRecords()).filter((r) => r.status === 'solved');
+    const knownIds = new Set(solvedRecords.map((r) => r.problemId));
+    // 이전 동기화 때 이미 solved.ac에 있던 문제 (가져온 기록 + 그 전에 타이머로 푼 기록)
+    const syncedIds = new Set(solvedRecords
+      .filter((r) => r.imported || (isIncremental && r.endTime && r.endTime <= previous.syncedAt))
+      .map((r) => r.problemId));
+    // 이전 동기화 이후 새로 푼 문제 수 (모두 찾으면 나머지 페이지는 건너뜀)
+    const expectedNew = isIncremental ? user.solvedCount - previous.solvedCount : undefined;
+
+    try {
+      const result = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `solved.ac에서 ${handle}의 푼 문제 가져오는 중...`,
+          cancellable: true
+        },
+        async (progress, token) => {
+          const records: SolveRecord[] = [];
+          let newCount = 0;
+          let fetched = 0;
+          let total = user.solvedCount;
+
+          for (let page = 1; fetched < total; page++) {
+            if (token.isCancellationRequested) {
+              return { records, completed: false };
+            }
+
+            const { count, items } = await this.solvedAcService.getSolvedProblems(handle, page);
+            total = count;
+            fetched += items.length;
+            progress.report({
+              message: `${fetched} / ${total}`,
+              increment: total > 0 ? (items.length / total) * 100 : 100
+            });
+
+            for (const problem of items) {
+              const problemId = String(problem.problemId);
+              if (!syncedIds.has(problemId)) {
+                newCount++;
+              }
+              if (!knownIds.has(problemId)) {
+                records.push(this.toRecord(problem));
+                knownIds.add(problemId);
+              }
+            }
+
+            if (items.length < SEARCH_PAGE_SIZE || (expectedNew !== undefined && newCount >= expectedNew)) {
+              break;
+            }
+          }
+          return { records, completed: true };
+        }
+      );
+
+      const added = await this.timerService.importRecords(result.records);
+      if (result.completed) {
+        const state: ImportSyncState = { handle, solvedCount: user.solvedCount, syncedAt: Date.now() };
+        await this.context.globalState.update(syncKey, state);
+      }
+
+      const message = result.completed
+        ? `solved.ac에서 ${added}문제를 가져왔습니다. (${handle}: ${user.solvedCount}문제)`
+        : `가져오기를 중단했습니다. ${added}문제를 추가했고, 다음 동기화 때 이어서 가져옵니다.`;
+      const action = await vscode.window.showInformationMessage(message, '통계 보기');
+      if (action === '통계 보기') {
+        vscode.commands.executeCommand('bojmate.showStats');
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private toRecord(problem: SolvedAcProblem): SolveRecord {
+    return {
+      problemId: String(problem.problemId),
+      title: problem.titleKo,
+      tier: problem.level,
+      tierName: getTierName(problem.level),
+      startTime: Date.now(),
+      attempts: 0,
+      status: 'solved',
+      language: '',
+      tags: this.solvedAcService.getTagsKorean(problem),
+      imported: true
+    };
+  }
+}
@@ -0,0 +1,206 @@
+import * as vscode from 'vscode';
+import { SolvedAcService } from '../services/SolvedAcService';
+import { AuthService, accountStorageKey } from '../services/AuthService';
+import { TIER_NAMES, getTierName } from '../types';
+import { buildSolvedQuery } from '../utils/solvedQuery';
+
+const CONSTRAINTS_KEY = 'bojmate.randomConstraints';
+const HISTORY_KEY = 'bojmate.randomHistory';
+const MAX_HISTORY = 500;
+
+interface RandomConstraints {
+  tierMin: number;
+  tierMax: number;
+  tags: string[]; // 하나 이상 포함
+  solvedMin?: number; // 최소 맞은 사람 수
+  unsolvedOnly: boolean;
+}
+
+const DEFAULT_CONSTRAINTS: RandomConstraints = {
+  tierMin: 6,
+  tierMax: 10,
+  tags: [],
+  unsolvedOnly: true
+};
+
+/**
+ * 조건에 맞는 문제를 무작위로 뽑기
+ * 뽑은 문제는 계정별 기록에 남겨 다시 뽑을 때 겹치지 않게 한다.
+ */
+export class RandomProblemCommand {
+  private context: vscode.ExtensionContext;
+  private solvedAcService: SolvedAcService;
+  private authService: AuthService;
+
+  constructor(context: vscode.ExtensionContext, solvedAcService: SolvedAcService, authService: AuthService) {
+    this.context = context;
+    this.solvedAcService = solvedAcService;
+    this.authService = authService;
+  }
+
+  private get historyKey(): string {
+    return accountStorageKey(HISTORY_KEY, this.authService.getActiveAccount().name);
+  }
+
+  async execute(): Promise<void> {
+    let constraints = this.context.globalState.get<RandomConstraints>(CONSTRAINTS_KEY, DEFAULT_CONSTRAINTS);
+    const history = this.context.globalState.get<string[]>(this.historyKey, []);
+
+    const items: (vscode.QuickPickItem & { action: 'roll' | 'edit' | 'clear' })[] = [
+      { label: '$(debug-restart) 뽑기', description: this.describe(constraints), action: 'roll' },
+      { label: '$(settings) 조건 변경', action: 'edit' },
+      { label: '$(trash) 뽑기 기록 초기화', description: `${history.length}문제`, action: 'clear' }
+    ];
+    const selected = await vscode.window.showQuickPick(items, { placeHolder: '랜덤 문제 뽑기' });
+    if (!selected) {
+      return;
+    }
+
+    switch (selected.action) {
+      case 'edit': {
+        const edited = await this.editConstraints(constraints);
+        if (!edited) {
+          return;
+        }
+        constraints = edited;
+        await this.context.globalState.update(CONSTRAINTS_KEY, constraints);
+        break;
+      }
+      case 'clear':
+        await this.context.globalState.update(this.historyKey, []);
+        vscode.window.showInformationMessage('뽑기 기록을 초기화했습니다.');
+        return;
+    }
+
+    await this.roll(constraints);
+  }
+
+  private async roll(constraints: RandomConstraints): Promise<void> {
+    const handle = this.authService.getUsername();
+    if (constraints.unsolvedOnly && !handle) {
+      vscode.window.showWarningMessage('안 푼 문제만 뽑으려면 백준 아이디를 설정해주세요. 푼 문제도 포함해 뽑습니다.');
+    }
+    const query = buildSolvedQuery({
+      tierMin: constraints.tierMin,
+      tierMax: constraints.tierMax,
+      tags: constraints.tags,
+      tagMode: 'or',
+      solvedMin: constraints.solvedMin,
+      solvedFilter: constraints.unsolvedOnly ? 'unsolved' : 'all'
+    }, handle);
+
+    // 다시 뽑기를 누르면 같은 조건으로 반복
+    for (;;) {
+      const history = this.context.globalState.get<string[]>(this.historyKey, []);
+      const problem = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: '랜덤 문제 뽑는 중...' },
+        () => this.solvedAcService.getRandomProblem(query, new Set(history))
+      );
+
+      if (!problem) {
+        const action = await vscode.window.showWarningMessage(
+          history.length > 0
+            ? '조건에 맞는 새 문제가 없습니다. 뽑기 기록을 초기화하면 이미 뽑은 문제도 다시 나옵니다.'
+            : '조건에 맞는 문제가 없습니다.',
+          ...(history.length > 0 ? ['기록 초기화'] : [])
+        );
+        if (action === '기록 초기화') {
+          await this.context.globalState.update(this.historyKey, []);
+          continue;
+        }
+        return;
+      }
+
+      const problemId = String(problem.problemId);
+      await this.context.globalState.update(this.historyKey, [...history, problemId].slice(-MAX_HISTORY));
+
+      const action = await vscode.window.showInformationMessage(
+        `🎲 ${problemId}번: ${problem.titleKo} (${getTierName(problem.level)})`,
+        '문제 보기',
+        '문제 생성',
+        '다시 뽑기'
+      );
+      if (action === '문제 보기') {
+        vscode.commands.executeCommand('bojmate.viewProblem', problemId);
+      } else if (action === '문제 생성') {
+        vscode.commands.executeCommand('bojmate.createProblem', problemId);
+      }
+      if (action !== '다시 뽑기') {
+        return;
+      }
+    }
+  }
+
+  private async editConstraints(current: RandomConstraints): Promise<RandomConstraints | undefined> {
+    const tierItems = (selectedTier: number) => Object.entries(TIER_NAMES)
+      .filter(([level]) => Number(level) > 0)
+      .map(([level, name]) => ({
+        label: name,
+        level: Number(level),
+        description: Number(level) === selectedTier ? '현재' : undefined
+      }));
+
+    const tierMin = await vscode.window.showQuickPick(tierItems(current.tierMin), { placeHolder: '최소 난이도' });
+    if (!tierMin) {
+      return undefined;
+    }
+    const tierMax = await vscode.window.showQuickPick(
+      tierItems(current.tierMax).filter((item) => item.level >= tierMin.level),
+      { placeHolder: '최대 난이도' }
+    );
+    if (!tierMax) {
+      return undefined;
+    }
+
+    const allTags = await this.solvedAcService.getAllTags();
+    const tags = await vscode.window.showQuickPick(
+      allTags.map((tag) => ({
+        label: tag.name,
+        description: `${tag.problemCount}문제`,
+        key: tag.key,
+        picked: current.tags.includes(tag.key)
+      })),
+      { canPickMany: true, placeHolder: '알고리즘 분류 (선택한 분류 중 하나 이상 포함, 선택하지 않으면 전체)' }
+    );
+    if (!tags) {
+      return undefined;
+    }
+
+    const solvedMin = await vscode.window.showInputBox({
+      prompt: '최소 맞은 사람 수 (비우면 제한 없음)',
+      value: current.solvedMin !== undefined ? String(current.solvedMin) : '',
+      validateInput: (value) => !value.trim() || /^\d+$/.test(value.trim()) ? undefined : '숫자를 입력해주세요.'
+    });
+    if (solvedMin === undefined) {
+      return undefined;
+    }
+
+    const unsolved = await vscode.window.showQuickPick(
+      [
+        { label: '안 푼 문제만', value: true, description: current.unsolvedOnly ? '현재' : undefined },
+        { label: '모든 문제', value: false, description: current.unsolvedOnly ? undefined : '현재' }
+      ],
+      { placeHolder: '풀이 상태' }
+    );
+    if (!unsolved) {
+      return undefined;
+    }
+
+    return {
+      tierMin: tierMin.level,
+      tierMax: tierMax.level,
+      tags: tags.map((tag) => tag.key),
+      solvedMin: solvedMin.trim() ? parseInt(solvedMin.trim()) : undefined,
+      unsolvedOnly: unsolved.value
+    };
+  }
+
+  private describe(constraints: RandomConstraints): string {
+    return [
+      `${getTierName(constraints.tierMin)} ~ ${getTierName(constraints.tierMax)}`,
+      constraints.tags.length > 0 ? constraints.tags.join(' | ') : '',
+      constraints.solvedMin !== undefined ? `${constraints.solvedMin}명 이상` : '',
+      constraints.unsolvedOnly ? '안 푼 문제' : ''
+    ].filter(Boolean).join(' · ');
+  }
+}
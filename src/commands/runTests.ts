@@ -1,21 +1,51 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import * as fs from 'fs';
-import { CodeRunner, detectLanguage } from '../utils/compiler';
-import { TestCase, TestResult, SupportedLanguage } from '../types';
+import { CodeRunner, detectLanguage, formatMemory, isInsideWorkspace } from '../utils/compiler';
+import { ResolvedLanguageCommands, resolveLanguageCommands } from '../utils/languageProfiles';
+import {
+  CHECKER_LABELS,
+  DEFAULT_EPSILON,
+  describeChecker,
+  describeDifference,
+  findFirstDifference
+} from '../utils/checker';
+import { TestResult, CheckerConfig, CheckerType, ProblemMetadata } from '../types';
 import { TimerService } from '../services/TimerService';
 import { TemplateService } from '../services/TemplateService';
+import { TestCaseService, TestData } from '../services/TestCaseService';
+import { DiagnosticsService } from '../services/DiagnosticsService';
+import { TestExplorerProvider } from '../providers/TestExplorerProvider';
+import { VirtualDocumentProvider } from '../providers/VirtualDocumentProvider';
+
+const MAX_DIFF_LINES = 10;
+const MAX_TRACE_LOCATIONS = 5;
 
 export class RunTestsCommand {
   private codeRunner: CodeRunner;
   private timerService: TimerService;
   private templateService: TemplateService;
+  private testCaseService: TestCaseService;
   private outputChannel: vscode.OutputChannel;
-
-  constructor(timerService: TimerService, templateService: TemplateService) {
-    this.codeRunner = new CodeRunner();
+  private testExplorer: TestExplorerProvider;
+  private virtualDocuments: VirtualDocumentProvider;
+  private diagnostics: DiagnosticsService;
+  private lastResults: TestResult[] = [];
+
+  constructor(
+    timerService: TimerService,
+    templateService: TemplateService,
+    testCaseService: TestCaseService,
+    virtualDocuments: VirtualDocumentProvider,
+    testExplorer: TestExplorerProvider,
+    diagnostics: DiagnosticsService
+  ) {
+    this.codeRunner = new CodeRunner(diagnostics);
     this.timerService = timerService;
     this.templateService = templateService;
+    this.testCaseService = testCaseService;
+    this.virtualDocuments = virtualDocuments;
+    this.testExplorer = testExplorer;
+    this.diagnostics = diagnostics;
     this.outputChannel = vscode.window.createOutputChannel('BOJ Mate - 테스트');
   }
 
@@ -38,12 +68,36 @@ export class RunTestsCommand {
     }
 
     // 테스트 케이스 및 제한시간 로드
-    const { testCases, timeLimitMs } = this.loadTestData(filePath);
-    if (testCases.length === 0) {
+    let testData: TestData;
+    try {
+      testData = this.testCaseService.loadTestData(filePath);
+    } catch (error) {
+      vscode.window.showErrorMessage(`${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    if (testData.testCases.length === 0) {
       vscode.window.showWarningMessage('테스트 케이스를 찾을 수 없습니다.');
       return;
     }
 
+    // 인터랙티브 문제는 인터랙터가 있어야 실행 가능
+    if (testData.interactive && !testData.interactorPath) {
+      const action = await vscode.window.showWarningMessage(
+        '인터랙티브 문제입니다. 풀이와 대화할 인터랙터 프로그램을 선택해주세요.',
+        '인터랙터 선택'
+      );
+      if (action !== '인터랙터 선택' || !(await this.selectInteractorFile(filePath))) {
+        return;
+      }
+      try {
+        testData = this.testCaseService.loadTestData(filePath);
+      } catch (error) {
+        vscode.window.showErrorMessage(`${error instanceof Error ? error.message : error}`);
+        return;
+      }
+    }
+    const { testCases, timeLimitMs, memoryLimitKb, checker, interactive, interactorPath } = testData;
+
     // 파일 저장
     const document = vscode.workspace.textDocuments.find(
       (doc) => doc.uri.fsPath === filePath
@@ -56,6 +110,7 @@ export class RunTestsCommand {
     await this.timerService.incrementAttempt();
 
     // 테스트 실행
+    const commands = resolveLanguageCommands(language);
     await vscode.window.withProgress(
       {
         location: vscode.ProgressLocation.Notification,
@@ -73,65 +128,238 @@ export class RunTestsCommand {
               increment: (1 / total) * 100
             });
           },
-          timeLimitMs
+          { timeLimitMs, memoryLimitKb, checker, interactorPath: interactive ? interactorPath : undefined }
         );
 
-        this.showResults(results, filePath!, timeLimitMs);
+        this.showResults(results, filePath!, testData, commands);
+        this.testExplorer.reportResults(filePath!, results);
       }
     );
   }
 
-  private loadTestData(filePath: string): { testCases: TestCase[]; timeLimitMs?: number } {
-    // 문제 번호 추출
-    const problemId = this.templateService.findProblemIdFromPath(filePath);
-    if (problemId) {
-      // globalState에서 메타데이터 조회
-      const metadata = this.templateService.getMetadataById(problemId);
-      if (metadata?.testCases && metadata.testCases.length > 0) {
-        const timeLimitMs = metadata.timeLimit ? this.parseTimeLimit(metadata.timeLimit) : undefined;
-        return { testCases: metadata.testCases, timeLimitMs };
+  async selectChecker(filePath?: string): Promise<void> {
+    if (!filePath) {
+      filePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+    }
+    const problemId = filePath ? this.templateService.findProblemIdFromPath(filePath) : null;
+    if (!filePath || !problemId) {
+      vscode.window.showErrorMessage('문제 파일을 열고 다시 시도해주세요.');
+      return;
+    }
+
+    const current = this.templateService.getMetadataById(problemId)?.checker;
+    const checkerItems = (Object.keys(CHECKER_LABELS) as CheckerType[]).map((type) => ({
+      label: CHECKER_LABELS[type],
+      description: current?.type === type || (!current && type === 'exact') ? '현재 설정' : undefined,
+      value: type
+    }));
+
+    const selected = await vscode.window.showQuickPick(checkerItems, {
+      placeHolder: `${problemId}번 채점 방식 선택`
+    });
+    if (!selected) {
+      return;
+    }
+
+    let checker: CheckerConfig = { type: selected.value };
+
+    if (selected.value === 'epsilon') {
+      const input = await vscode.window.showInputBox({
+        prompt: '허용 오차를 입력하세요 (절대/상대 오차 중 하나라도 만족하면 정답)',
+        value: String(current?.absoluteError ?? current?.relativeError ?? DEFAULT_EPSILON),
+        validateInput: (value) => {
+          const epsilon = Number(value);
+          return Number.isFinite(epsilon) && epsilon > 0 ? null : '양수를 입력하세요 (예: 1e-6)';
+        }
+      });
+      if (!input) {
+        return;
       }
+      checker = { type: 'epsilon', absoluteError: Number(input), relativeError: Number(input) };
     }
 
-    // 메타데이터가 없으면 기존 방식으로 파일에서 로드 (하위 호환성)
-    return { testCases: this.loadTestCasesFromFiles(filePath) };
+    if (selected.value === 'custom') {
+      const uri = await vscode.window.showOpenDialog({
+        canSelectFiles: true,
+        canSelectMany: false,
+        defaultUri: vscode.Uri.file(path.dirname(filePath)),
+        openLabel: '체커 선택',
+        title: '체커 프로그램 선택 (checker input expected actual)'
+      });
+      if (!uri || uri.length === 0) {
+        return;
+      }
+      if (!detectLanguage(uri[0].fsPath)) {
+        vscode.window.showErrorMessage('지원하지 않는 언어의 체커입니다.');
+        return;
+      }
+      if (!isInsideWorkspace(uri[0].fsPath)) {
+        vscode.window.showErrorMessage('워크스페이스 밖의 체커는 실행할 수 없습니다. 워크스페이스 안의 파일을 선택해주세요.');
+        return;
+      }
+      checker = { type: 'custom', checkerPath: uri[0].fsPath };
+    }
+
+    await this.updateProblemSettings(problemId, filePath, { checker });
+    vscode.window.showInformationMessage(`${problemId}번 채점 방식: ${describeChecker(checker)}`);
   }
 
-  private parseTimeLimit(timeLimit: string): number {
-    // "1 초" → 1000ms, "2 초" → 2000ms, "0.5 초" → 500ms
-    // 로컬 실행은 BOJ 서버보다 느릴 수 있으므로 여유분(x2) 추가
-    const match = timeLimit.match(/([\d.]+)\s*초/);
-    if (match) {
-      const seconds = parseFloat(match[1]);
-      return Math.ceil(seconds * 2 * 1000); // x2 여유분
+  async configureInteractive(filePath?: string): Promise<void> {
+    if (!filePath) {
+      filePath = vscode.window.activeTextEditor?.document.uri.fsPath;
     }
-    return 5000; // 파싱 실패 시 기본 5초
+    const problemId = filePath ? this.templateService.findProblemIdFromPath(filePath) : null;
+    if (!filePath || !problemId) {
+      vscode.window.showErrorMessage('문제 파일을 열고 다시 시도해주세요.');
+      return;
+    }
+
+    const metadata = this.templateService.getMetadataById(problemId);
+    const items = [
+      {
+        label: '$(file-code) 인터랙터 선택...',
+        description: metadata?.interactorPath ? path.basename(metadata.interactorPath) : undefined,
+        value: 'select'
+      },
+      metadata?.interactive
+        ? { label: '$(circle-slash) 인터랙티브 모드 끄기', description: undefined, value: 'off' }
+        : { label: '$(check) 인터랙티브 모드 켜기', description: undefined, value: 'on' }
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: `${problemId}번 인터랙티브 모드 (현재: ${metadata?.interactive ? '켜짐' : '꺼짐'})`
+    });
+    if (!selected) {
+      return;
+    }
+
+    if (selected.value === 'select') {
+      await this.selectInteractorFile(filePath);
+      return;
+    }
+
+    await this.updateProblemSettings(problemId, filePath, { interactive: selected.value === 'on' });
+    vscode.window.showInformationMessage(
+      `${problemId}번 인터랙티브 모드를 ${selected.value === 'on' ? '켰습니다' : '껐습니다'}.`
+    );
   }
 
-  private loadTestCasesFromFiles(filePath: string): TestCase[] {
-    const dir = path.dirname(filePath);
-    const testCases: TestCase[] = [];
-    let i = 1;
+  /**
+   * 인터랙터 파일을 골라 저장하고 인터랙티브 모드를 켠다
+   */
+  private async selectInteractorFile(filePath: string): Promise<boolean> {
+    const problemId = this.templateService.findProblemIdFromPath(filePath);
+    if (!problemId) {
+      return false;
+    }
 
-    while (true) {
-      const inputPath = path.join(dir, `input${i}.txt`);
-      const outputPath = path.join(dir, `output${i}.txt`);
+    const uri = await vscode.window.showOpenDialog({
+      canSelectFiles: true,
+      canSelectMany: false,
+      defaultUri: vscode.Uri.file(path.dirname(filePath)),
+      openLabel: '인터랙터 선택',
+      title: '인터랙터 프로그램 선택 (interactor input, 종료 코드 0이면 정답)'
+    });
+    if (!uri || uri.length === 0) {
+      return false;
+    }
+    if (!detectLanguage(uri[0].fsPath)) {
+      vscode.window.showErrorMessage('지원하지 않는 언어의 인터랙터입니다.');
+      return false;
+    }
+    if (!isInsideWorkspace(uri[0].fsPath)) {
+      vscode.window.showErrorMessage('워크스페이스 밖의 인터랙터는 실행할 수 없습니다. 워크스페이스 안의 파일을 선택해주세요.');
+      return false;
+    }
 
-      if (!fs.existsSync(inputPath) || !fs.existsSync(outputPath)) {
-        break;
-      }
+    await this.updateProblemSettings(problemId, filePath, {
+      interactive: true,
+      interactorPath: uri[0].fsPath
+    });
+    vscode.window.showInformationMessage(`${problemId}번 인터랙터: ${path.basename(uri[0].fsPath)}`);
+    return true;
+  }
 
-      testCases.push({
-        input: fs.readFileSync(inputPath, 'utf-8'),
-        output: fs.readFileSync(outputPath, 'utf-8')
-      });
-      i++;
+  /**
+   * 문제별 설정 저장 (메타데이터가 없으면 최소한의 메타데이터 생성)
+   */
+  private async updateProblemSettings(
+    problemId: string,
+    filePath: string,
+    updates: Partial<ProblemMetadata>
+  ): Promise<void> {
+    if (this.templateService.getMetadataById(problemId)) {
+      await this.templateService.updateMetadata(problemId, updates);
+      return;
     }
 
-    return testCases;
+    await this.templateService.saveMetadata(problemId, {
+      problemId,
+      title: '',
+      tier: 0,
+      tierName: 'Unknown',
+      language: detectLanguage(filePath) || '',
+      createdAt: Date.now(),
+      tags: [],
+      codePath: filePath,
+      ...updates
+    });
   }
 
-  private showResults(results: TestResult[], filePath: string, timeLimitMs?: number): void {
+  /**
+   * 마지막 실행에서 실패한 케이스를 diff 편집기로 열기
+   */
+  async showFailedDiff(): Promise<void> {
+    const failed = this.lastResults.filter((r) => !r.passed && this.canShowDiff(r));
+    if (failed.length === 0) {
+      vscode.window.showInformationMessage('비교할 실패한 테스트가 없습니다. 먼저 테스트를 실행해주세요.');
+      return;
+    }
+
+    let target = failed[0];
+    if (failed.length > 1) {
+      const selected = await vscode.window.showQuickPick(
+        failed.map((result) => {
+          const difference = findFirstDifference(result.expected, result.actual);
+          return {
+            label: this.describeResultName(result),
+            description: difference ? describeDifference(difference) : result.checkerMessage,
+            result
+          };
+        }),
+        { placeHolder: '차이를 볼 테스트 케이스 선택' }
+      );
+      if (!selected) {
+        return;
+      }
+      target = selected.result;
+    }
+
+    await this.virtualDocuments.showDiff(
+      `${this.describeResultName(target)}: 예상 ↔ 실제`,
+      target.expected,
+      target.actual
+    );
+  }
+
+  private canShowDiff(result: TestResult): boolean {
+    // 예상 출력이 없거나 실행 자체가 실패해 출력이 없으면 비교할 대상이 없음
+    return !result.outputOnly && !result.interactive && !(result.error && !result.actual);
+  }
+
+  private describeResultName(result: TestResult): string {
+    const sourceTag = result.source === 'custom' ? '[커스텀]' : '[예제]';
+    return `${sourceTag} ${result.label || `테스트 ${result.testCaseIndex + 1}`}`;
+  }
+
+  private showResults(
+    results: TestResult[],
+    filePath: string,
+    testData: TestData,
+    commands: ResolvedLanguageCommands
+  ): void {
+    const { timeLimitMs, memoryLimitKb, checker, interactive, interactorPath } = testData;
+    this.lastResults = results;
     this.outputChannel.clear();
     this.outputChannel.show(true);
 
@@ -148,36 +376,79 @@ export class RunTestsCommand {
     if (timeLimitMs) {
       this.outputChannel.appendLine(`  ⏱️ 제한시간: ${timeLimitMs / 2}ms (로컬 여유분 x2 = ${timeLimitMs}ms)`);
     }
+    if (memoryLimitKb) {
+      this.outputChannel.appendLine(`  💾 메모리 제한: ${formatMemory(memoryLimitKb)}`);
+    }
+    this.outputChannel.appendLine(
+      `  🛠️ 프로필: ${commands.profile} (${(commands.compileArgs || commands.runArgs).join(' ')})`
+    );
+    if (interactive && interactorPath) {
+      this.outputChannel.appendLine(`  🔁 인터랙티브 모드: ${path.basename(interactorPath)}`);
+    } else {
+      this.outputChannel.appendLine(`  ⚖️ 채점 방식: ${describeChecker(checker)}`);
+    }
+    const customCount = results.filter((r) => r.source === 'custom').length;
+    if (customCount > 0) {
+      this.outputChannel.appendLine(`  🧪 예제 ${total - customCount}개 + 커스텀 ${customCount}개`);
+    }
     this.outputChannel.appendLine('═'.repeat(60));
     this.outputChannel.appendLine('');
 
     for (const result of results) {
       const icon = result.passed ? '✅' : '❌';
-      this.outputChannel.appendLine(
-        `${icon} 테스트 ${result.testCaseIndex + 1} (${result.executionTime}ms)`
-      );
+      const usage = result.memoryKb !== undefined
+        ? `${result.executionTime}ms, ${formatMemory(result.memoryKb)}`
+        : `${result.executionTime}ms`;
+      this.outputChannel.appendLine(`${icon} ${this.describeResultName(result)} (${usage})`);
       this.outputChannel.appendLine('─'.repeat(40));
 
-      this.outputChannel.appendLine('📥 입력:');
+      this.outputChannel.appendLine(result.interactive ? '📥 인터랙터 입력:' : '📥 입력:');
       this.outputChannel.appendLine(this.indent(result.input));
       this.outputChannel.appendLine('');
 
-      this.outputChannel.appendLine('📤 예상 출력:');
-      this.outputChannel.appendLine(this.indent(result.expected));
-      this.outputChannel.appendLine('');
+      if (result.interactive) {
+        // →: 풀이가 보낸 줄, ←: 인터랙터가 보낸 줄
+        this.outputChannel.appendLine('💬 대화 기록:');
+        const transcript = (result.transcript || [])
+          .map((line) => `${line.from === 'solution' ? '→' : '←'} ${line.text}`)
+          .join('\n');
+        this.outputChannel.appendLine(this.indent(transcript || '(주고받은 내용 없음)'));
+      } else {
+        this.outputChannel.appendLine('📤 예상 출력:');
+        this.outputChannel.appendLine(
+          result.outputOnly ? this.indent('(없음 - 출력만 확인)') : this.indent(result.expected)
+        );
+        this.outputChannel.appendLine('');
 
-      this.outputChannel.appendLine('📝 실제 출력:');
-      this.outputChannel.appendLine(this.indent(result.actual));
+        this.outputChannel.appendLine('📝 실제 출력:');
+        this.outputChannel.appendLine(this.indent(result.actual));
+      }
 
       if (result.error) {
         this.outputChannel.appendLine('');
         this.outputChannel.appendLine('⚠️ 오류:');
         this.outputChannel.appendLine(this.indent(result.error));
+
+        // 스택 트레이스 위치를 클릭 가능한 경로:줄:열 형태로 표시
+        const frames = this.diagnostics.findFrames(filePath, result.error).slice(0, MAX_TRACE_LOCATIONS);
+        if (frames.length > 0) {
+          this.outputChannel.appendLine('📍 위치:');
+          for (const frame of frames) {
+            this.outputChannel.appendLine(`    ${frame.file}:${frame.line}:${frame.column}`);
+          }
+        }
       }
 
-      if (!result.passed) {
+      if (result.checkerMessage) {
         this.outputChannel.appendLine('');
-        this.outputChannel.appendLine('🔍 차이점:');
+        this.outputChannel.appendLine('⚖️ 채점 메시지:');
+        this.outputChannel.appendLine(this.indent(result.checkerMessage));
+      }
+
+      if (!result.passed && this.canShowDiff(result) && (!checker || checker.type === 'exact')) {
+        const difference = findFirstDifference(result.expected, result.actual);
+        this.outputChannel.appendLine('');
+        this.outputChannel.appendLine(`🔍 차이점:${difference ? ` ${describeDifference(difference)}` : ''}`);
         this.showDiff(result.expected, result.actual);
       }
 
@@ -198,9 +469,17 @@ export class RunTestsCommand {
           }
         });
     } else {
-      vscode.window.showWarningMessage(
-        `❌ 테스트 실패: ${passed}/${total} 통과`
-      );
+      const canDiff = results.some((r) => !r.passed && this.canShowDiff(r));
+      vscode.window
+        .showWarningMessage(
+          `❌ 테스트 실패: ${passed}/${total} 통과`,
+          ...(canDiff ? ['차이 보기'] : [])
+        )
+        .then((selection) => {
+          if (selection === '차이 보기') {
+            this.showFailedDiff();
+          }
+        });
     }
   }
 
@@ -215,17 +494,29 @@ export class RunTestsCommand {
     const expectedLines = expected.split('\n');
     const actualLines = actual.split('\n');
     const maxLines = Math.max(expectedLines.length, actualLines.length);
+    let shown = 0;
+    let hidden = 0;
 
     for (let i = 0; i < maxLines; i++) {
       const exp = expectedLines[i] ?? '(없음)';
       const act = actualLines[i] ?? '(없음)';
 
       if (exp !== act) {
+        // 출력이 길면 앞부분만 보여주고 나머지는 차이 보기로 안내
+        if (shown >= MAX_DIFF_LINES) {
+          hidden++;
+          continue;
+        }
         this.outputChannel.appendLine(`    라인 ${i + 1}:`);
         this.outputChannel.appendLine(`      예상: "${exp}"`);
         this.outputChannel.appendLine(`      실제: "${act}"`);
+        shown++;
       }
     }
+
+    if (hidden > 0) {
+      this.outputChannel.appendLine(`    ... 외 ${hidden}줄 ('차이 보기'로 전체 비교)`);
+    }
   }
 
   dispose(): void {
@@ -0,0 +1,353 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CodeRunner, detectLanguage, isInsideWorkspace, PreparedProgram } from '../utils/compiler';
+import { compareOutput, CheckResult } from '../utils/checker';
+import { StressTestConfig } from '../types';
+import { TemplateService } from '../services/TemplateService';
+import { TestCaseService, TestData } from '../services/TestCaseService';
+import { DiagnosticsService } from '../services/DiagnosticsService';
+import { VirtualDocumentProvider } from '../providers/VirtualDocumentProvider';
+
+interface StressFailure {
+  iteration: number;
+  seed: number;
+  reason: string;
+  input: string;
+  expected: string;
+  actual: string;
+  detail?: string;
+}
+
+export class StressTestCommand {
+  private codeRunner: CodeRunner;
+  private templateService: TemplateService;
+  private testCaseService: TestCaseService;
+  private virtualDocuments: VirtualDocumentProvider;
+
+  constructor(
+    templateService: TemplateService,
+    testCaseService: TestCaseService,
+    virtualDocuments: VirtualDocumentProvider,
+    diagnostics: DiagnosticsService
+  ) {
+    this.codeRunner = new CodeRunner(diagnostics);
+    this.templateService = templateService;
+    this.testCaseService = testCaseService;
+    this.virtualDocuments = virtualDocuments;
+  }
+
+  async execute(filePath?: string): Promise<void> {
+    if (!filePath) {
+      const activeEditor = vscode.window.activeTextEditor;
+      if (!activeEditor) {
+        vscode.window.showErrorMessage('열린 파일이 없습니다.');
+        return;
+      }
+      filePath = activeEditor.document.uri.fsPath;
+      if (activeEditor.document.isDirty) {
+        await activeEditor.document.save();
+      }
+    }
+
+    const problemId = this.templateService.findProblemIdFromPath(filePath);
+    if (!problemId) {
+      vscode.window.showErrorMessage('파일 경로에서 문제 번호를 찾을 수 없습니다.');
+      return;
+    }
+
+    if (!detectLanguage(filePath)) {
+      vscode.window.showErrorMessage('지원하지 않는 언어입니다.');
+      return;
+    }
+
+    let testData: TestData;
+    try {
+      testData = this.testCaseService.loadTestData(filePath);
+    } catch (error) {
+      vscode.window.showErrorMessage(`${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    const { timeLimitMs, checker } = testData;
+
+    const config = await this.promptConfig(filePath, problemId);
+    if (!config) {
+      return;
+    }
+
+    const failure = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `스트레스 테스트 (${problemId}번)`,
+        cancellable: true
+      },
+      async (progress, token) => {
+        progress.report({ message: '컴파일 중...' });
+
+        const programs: PreparedProgram[] = [];
+        let preparedChecker: PreparedProgram | undefined;
+        try {
+          // 보조 프로그램은 각자 임시 폴더에서 컴파일 (같은 폴더의 Java 프로그램이 Main.class를 덮어쓰지 않도록)
+          const roles: [string, string, boolean][] = [
+            [config.generatorPath, '생성기', true],
+            [config.referencePath, '정답 코드', true],
+            [filePath!, '내 코드', false]
+          ];
+          for (const [programPath, role, isolate] of roles) {
+            const prepared = await this.codeRunner.prepareProgram(programPath, role, { isolate });
+            if ('error' in prepared) {
+              throw new Error(prepared.error);
+            }
+            programs.push(prepared);
+          }
+          if (checker?.type === 'custom') {
+            const prepared = await this.codeRunner.prepareChecker(checker, { isolate: true });
+            if ('error' in prepared) {
+              throw new Error(prepared.error);
+            }
+            preparedChecker = prepared;
+          }
+        } catch (error) {
+          programs.forEach((p) => this.codeRunner.disposeProgram(p));
+          vscode.window.showErrorMessage(`${error instanceof Error ? error.message : error}`);
+          return null;
+        }
+
+        const [generator, reference, target] = programs;
+        const baseSeed = Date.now() % 1000000;
+
+        try {
+          for (let i = 1; i <= config.iterations; i++) {
+            if (token.isCancellationRequested) {
+              vscode.window.showInformationMessage(`스트레스 테스트 중단 (${i - 1}회 일치)`);
+              return null;
+            }
+
+            progress.report({
+              message: `${i}/${config.iterations}`,
+              increment: 100 / config.iterations
+            });
+
+            const seed = baseSeed + i;
+            const failure = await this.runIteration(
+              generator, reference, target, i, seed, timeLimitMs,
+              (expected, actual, input) => preparedChecker
+                ? this.codeRunner.runChecker(preparedChecker, input, expected, actual)
+                : Promise.resolve(compareOutput(expected, actual, checker))
+            );
+            if (failure) {
+              return failure;
+            }
+          }
+        } finally {
+          programs.forEach((p) => this.codeRunner.disposeProgram(p));
+          this.codeRunner.disposeProgram(preparedChecker);
+        }
+
+        vscode.window.showInformationMessage(`✅ 스트레스 테스트 ${config.iterations}회 모두 일치`);
+        return null;
+      }
+    );
+
+    if (failure) {
+      await this.showFailure(failure, filePath, problemId);
+    }
+  }
+
+  private async promptConfig(filePath: string, problemId: string): Promise<StressTestConfig | undefined> {
+    const metadata = this.templateService.getMetadataById(problemId);
+    const previous = metadata?.stressTest;
+
+    if (previous) {
+      const reuse = await vscode.window.showQuickPick(
+        [
+          {
+            label: '이전 설정 사용',
+            description: `${path.basename(previous.generatorPath)} / ${path.basename(previous.referencePath)} · ${previous.iterations}회`,
+            value: true
+          },
+          { label: '새로 선택', value: false }
+        ],
+        { placeHolder: '스트레스 테스트 설정' }
+      );
+      if (!reuse) {
+        return undefined;
+      }
+      if (reuse.value) {
+        return previous;
+      }
+    }
+
+    const generatorPath = await this.pickFile(filePath, '생성기 선택', '랜덤 입력 생성기 (첫 번째 인자로 seed 전달)');
+    if (!generatorPath) {
+      return undefined;
+    }
+
+    const referencePath = await this.pickFile(filePath, '정답 코드 선택', '정답(브루트포스) 코드');
+    if (!referencePath) {
+      return undefined;
+    }
+
+    const iterationsInput = await vscode.window.showInputBox({
+      prompt: '반복 횟수를 입력하세요',
+      value: String(previous?.iterations ?? 100),
+      validateInput: (value) => /^\d+$/.test(value) && parseInt(value) > 0 ? null : '1 이상의 정수를 입력하세요'
+    });
+    if (!iterationsInput) {
+      return undefined;
+    }
+
+    const config: StressTestConfig = {
+      generatorPath,
+      referencePath,
+      iterations: parseInt(iterationsInput)
+    };
+
+    if (metadata) {
+      await this.templateService.updateMetadata(problemId, { stressTest: config });
+    }
+
+    return config;
+  }
+
+  private async pickFile(filePath: string, openLabel: string, title: string): Promise<string | undefined> {
+    const uri = await vscode.window.showOpenDialog({
+      canSelectFiles: true,
+      canSelectMany: false,
+      defaultUri: vscode.Uri.file(path.dirname(filePath)),
+      openLabel,
+      title
+    });
+    if (!uri || uri.length === 0) {
+      return undefined;
+    }
+    if (!detectLanguage(uri[0].fsPath)) {
+      vscode.window.showErrorMessage(`지원하지 않는 언어입니다: ${path.basename(uri[0].fsPath)}`);
+      return undefined;
+    }
+    if (!isInsideWorkspace(uri[0].fsPath)) {
+      vscode.window.showErrorMessage(`워크스페이스 밖의 파일은 실행할 수 없습니다: ${path.basename(uri[0].fsPath)}`);
+      return undefined;
+    }
+    return uri[0].fsPath;
+  }
+
+  private async runIteration(
+    generator: PreparedProgram,
+    reference: PreparedProgram,
+    target: PreparedProgram,
+    iteration: number,
+    seed: number,
+    timeLimitMs: number | undefined,
+    check: (expected: string, actual: string, input: string) => Promise<CheckResult>
+  ): Promise<StressFailure | null> {
+    const generated = await this.codeRunner.execute(
+      generator.filePath, generator.language, '', generator.outputPath, { extraArgs: [String(seed)], rawOutput: true }
+    );
+    if (generated.timeout || generated.exitCode !== 0) {
+      return {
+        iteration, seed,
+        reason: '생성기 실행 오류',
+        input: '', expected: '', actual: '',
+        detail: generated.timeout ? '시간 초과' : generated.stderr
+      };
+    }
+
+    // 생성기 출력은 공백까지 그대로 입력으로 사용
+    const input = generated.stdout;
+
+    const expected = await this.codeRunner.execute(
+      reference.filePath, reference.language, input, reference.outputPath, { timeLimitMs }
+    );
+    if (expected.timeout || expected.exitCode !== 0) {
+      return {
+        iteration, seed,
+        reason: '정답 코드 실행 오류',
+        input, expected: expected.stdout, actual: '',
+        detail: expected.timeout ? '시간 초과' : expected.stderr
+      };
+    }
+
+    const actual = await this.codeRunner.execute(
+      target.filePath, target.language, input, target.outputPath, { timeLimitMs }
+    );
+    if (actual.timeout) {
+      return { iteration, seed, reason: '시간 초과', input, expected: expected.stdout, actual: actual.stdout };
+    }
+    if (actual.exitCode !== 0) {
+      return {
+        iteration, seed,
+        reason: `런타임 에러 (exit code: ${actual.exitCode})`,
+        input, expected: expected.stdout, actual: actual.stdout,
+        detail: actual.stderr
+      };
+    }
+
+    const result = await check(expected.stdout, actual.stdout, input);
+    if (!result.passed) {
+      return {
+        iteration, seed,
+        reason: '틀렸습니다',
+        input, expected: expected.stdout, actual: actual.stdout,
+        detail: result.message
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * 반례를 기본 diff 편집기로 보여주고 저장/다시 실행 선택
+   */
+  private async showFailure(failure: StressFailure, filePath: string, problemId: string): Promise<void> {
+    const hasOutputs = failure.input.length > 0 && failure.reason !== '정답 코드 실행 오류';
+    if (hasOutputs) {
+      await this.virtualDocuments.showDiff(
+        `${problemId}번 스트레스 seed ${failure.seed}: 정답 코드 ↔ 내 코드`,
+        failure.expected,
+        failure.actual
+      );
+    }
+
+    const detail = failure.detail?.split('\n').find((line) => line.trim());
+    const message = `❌ 스트레스 테스트 실패 (${failure.iteration}회차, seed ${failure.seed}): ${failure.reason}` +
+      (detail ? ` - ${detail.trim()}` : '');
+    const actions = failure.input.length > 0
+      ? ['입력 보기', '커스텀 테스트로 저장', '다시 실행']
+      : ['다시 실행'];
+
+    while (true) {
+      const action = await vscode.window.showErrorMessage(message, ...actions);
+      if (action === '입력 보기') {
+        const uri = this.virtualDocuments.createDocument('입력.txt', failure.input);
+        await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(uri), { preview: true });
+        continue;
+      }
+      if (action === '커스텀 테스트로 저장') {
+        await this.saveFailure(failure, filePath);
+      } else if (action === '다시 실행') {
+        vscode.commands.executeCommand('bojmate.stressTest', filePath);
+      }
+      return;
+    }
+  }
+
+  private async saveFailure(failure: StressFailure, filePath: string): Promise<void> {
+    try {
+      this.testCaseService.addCustomTest(
+        filePath,
+        failure.input,
+        failure.expected || undefined,
+        `스트레스 seed ${failure.seed}`
+      );
+      const action = await vscode.window.showInformationMessage(
+        '커스텀 테스트 케이스로 저장했습니다.',
+        '테스트 케이스 관리'
+      );
+      if (action) {
+        vscode.commands.executeCommand('bojmate.manageTestCases', filePath);
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`저장 실패: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
@@ -2,18 +2,35 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import { TemplateService } from '../services/TemplateService';
 import { TimerService } from '../services/TimerService';
+import { BojService } from '../services/BojService';
+import { AuthService } from '../services/AuthService';
 import { detectLanguage } from '../utils/compiler';
+import { LANGUAGE_CONFIG, SubmissionStatus } from '../types';
 
-export class SubmitCodeCommand {
+const STATUS_POLL_INTERVAL_MS = 1000;
+const STATUS_POLL_TIMEOUT_MS = 5 * 60 * 1000;
+const ACCEPTED_PATTERN = /^맞았습니다/;
+
+export class SubmitCodeCommand implements vscode.Disposable {
   private templateService: TemplateService;
   private timerService: TimerService;
+  private bojService: BojService;
+  private authService: AuthService;
+  private statusBarItem: vscode.StatusBarItem;
+  // 새로 제출하면 이전 제출의 채점 현황 조회는 중단
+  private trackingId = 0;
 
   constructor(
     templateService: TemplateService,
-    timerService: TimerService
+    timerService: TimerService,
+    bojService: BojService,
+    authService: AuthService
   ) {
     this.templateService = templateService;
     this.timerService = timerService;
+    this.bojService = bojService;
+    this.authService = authService;
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
   }
 
   async execute(filePath?: string): Promise<void> {
@@ -52,8 +69,172 @@ export class SubmitCodeCommand {
       return;
     }
 
-    // 코드를 클립보드에 복사
     const code = fs.readFileSync(filePath, 'utf-8');
+
+    // 저장된 쿠키가 없으면 저장할지, 브라우저로 제출할지 선택
+    let cookie = await this.authService.getCookies();
+    if (!cookie) {
+      const action = await vscode.window.showInformationMessage(
+        '저장된 로그인 쿠키가 없습니다. 쿠키를 저장하면 VS Code에서 바로 제출할 수 있습니다.',
+        '쿠키 저장',
+        '브라우저로 제출'
+      );
+      if (action === '쿠키 저장') {
+        cookie = await this.authService.promptForCookie();
+      }
+      if (!cookie) {
+        if (action === '브라우저로 제출') {
+          await this.submitViaBrowser(problemId, code);
+        }
+        return;
+      }
+    }
+
+    // 제출 전에 세션을 확인해 만료되었으면 쿠키를 다시 입력받음
+    const session = await this.authService.validateSession();
+    if (session && !session.valid) {
+      const action = await vscode.window.showWarningMessage(
+        '로그인 세션이 만료되었습니다. 쿠키를 다시 입력해주세요.',
+        '쿠키 다시 입력',
+        '브라우저로 제출'
+      );
+      cookie = action === '쿠키 다시 입력' ? await this.authService.promptForCookie() : undefined;
+      if (!cookie) {
+        if (action === '브라우저로 제출') {
+          await this.submitViaBrowser(problemId, code);
+        }
+        return;
+      }
+    }
+
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `${problemId}번 제출 중...`,
+        cancellable: false
+      },
+      () => this.bojService.submit(problemId!, language, code, cookie!)
+    );
+
+    if (!result.success) {
+      if (result.sessionExpired) {
+        await this.authService.markSessionInvalid();
+      }
+      // 세션 만료, 캡차 등으로 막히면 기존 방식(클립보드 + 브라우저)으로 제출
+      const action = await vscode.window.showWarningMessage(
+        `직접 제출 실패: ${result.error}`,
+        '브라우저로 제출'
+      );
+      if (action === '브라우저로 제출') {
+        await this.submitViaBrowser(problemId, code);
+      }
+      return;
+    }
+
+    if (!result.submissionId) {
+      vscode.window.showInformationMessage(
+        `📤 ${problemId}번 제출 완료 (${LANGUAGE_CONFIG[language].name})`,
+        '제출 결과 확인'
+      ).then(async (selection) => {
+        if (selection === '제출 결과 확인') {
+          await this.openStatusPage(problemId!);
+        }
+      });
+      return;
+    }
+
+    await this.trackSubmission(filePath, problemId, result.submissionId, cookie);
+  }
+
+  /**
+   * 채점이 끝날 때까지 채점 현황을 조회하며 상태 표시줄에 진행률 표시
+   */
+  private async trackSubmission(
+    filePath: string,
+    problemId: string,
+    submissionId: string,
+    cookie: string
+  ): Promise<void> {
+    const trackingId = ++this.trackingId;
+    const deadline = Date.now() + STATUS_POLL_TIMEOUT_MS;
+    let status: SubmissionStatus | undefined;
+
+    this.showProgress(problemId, submissionId);
+    try {
+      while (Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, STATUS_POLL_INTERVAL_MS));
+        if (trackingId !== this.trackingId) {
+          return;
+        }
+
+        try {
+          status = await this.bojService.getSubmissionStatus(problemId, submissionId, cookie);
+        } catch {
+          // 일시적인 네트워크 오류는 다음 조회에서 다시 시도
+          continue;
+        }
+        if (!status.pending) {
+          break;
+        }
+        this.showProgress(problemId, submissionId, status);
+      }
+    } finally {
+      if (trackingId === this.trackingId) {
+        this.statusBarItem.hide();
+      }
+    }
+
+    if (!status || status.pending) {
+      const action = await vscode.window.showWarningMessage(
+        `${problemId}번 제출 #${submissionId}의 채점 결과를 확인하지 못했습니다.`,
+        '제출 결과 확인'
+      );
+      if (action === '제출 결과 확인') {
+        await this.openStatusPage(problemId);
+      }
+      return;
+    }
+
+    await this.showVerdict(filePath, problemId, status);
+  }
+
+  private showProgress(problemId: string, submissionId: string, status?: SubmissionStatus): void {
+    const text = status?.progress !== undefined
+      ? `채점 중 (${status.progress}%)`
+      : status?.status || '기다리는 중';
+    this.statusBarItem.text = `$(sync~spin) ${problemId}번 ${text}`;
+    this.statusBarItem.tooltip = `제출 번호 #${submissionId}`;
+    this.statusBarItem.show();
+  }
+
+  private async showVerdict(filePath: string, problemId: string, status: SubmissionStatus): Promise<void> {
+    const details = [
+      status.memory ? `메모리 ${status.memory} KB` : undefined,
+      status.time ? `시간 ${status.time} ms` : undefined
+    ].filter(Boolean).join(' · ');
+    const message = `${problemId}번 #${status.submissionId}: ${status.status}${details ? ` (${details})` : ''}`;
+
+    if (!ACCEPTED_PATTERN.test(status.status)) {
+      const action = await vscode.window.showWarningMessage(`❌ ${message}`, '제출 결과 확인');
+      if (action === '제출 결과 확인') {
+        await vscode.env.openExternal(vscode.Uri.parse(this.getStatusUrl(problemId)));
+      }
+      return;
+    }
+
+    // 맞았으면 묻지 않고 타이머 종료
+    if (this.timerService.getCurrentRecord()?.problemId === problemId) {
+      await this.timerService.stopTimer('solved');
+    }
+
+    const action = await vscode.window.showInformationMessage(`✅ ${message}`, 'GitHub에 푸시');
+    if (action === 'GitHub에 푸시') {
+      await vscode.commands.executeCommand('bojmate.pushToGithub', filePath);
+    }
+  }
+
+  private async submitViaBrowser(problemId: string, code: string): Promise<void> {
+    // 코드를 클립보드에 복사
     await vscode.env.clipboard.writeText(code);
 
     // 브라우저에서 제출 페이지 열기
@@ -65,23 +246,35 @@ export class SubmitCodeCommand {
       '제출 결과 확인'
     ).then(async (selection) => {
       if (selection === '제출 결과 확인') {
-        const statusUrl = `https://www.acmicpc.net/status?from_mine=1&problem_id=${problemId}`;
-        await vscode.env.openExternal(vscode.Uri.parse(statusUrl));
-
-        // 타이머 종료 확인
-        const currentRecord = this.timerService.getCurrentRecord();
-        if (currentRecord && currentRecord.problemId === problemId) {
-          const stopTimer = await vscode.window.showInformationMessage(
-            '문제를 해결하셨나요?',
-            '해결 완료',
-            '계속 풀기'
-          );
-
-          if (stopTimer === '해결 완료') {
-            await this.timerService.stopTimer('solved');
-          }
-        }
+        await this.openStatusPage(problemId);
       }
     });
   }
+
+  private async openStatusPage(problemId: string): Promise<void> {
+    await vscode.env.openExternal(vscode.Uri.parse(this.getStatusUrl(problemId)));
+
+    // 타이머 종료 확인
+    const currentRecord = this.timerService.getCurrentRecord();
+    if (currentRecord && currentRecord.problemId === problemId) {
+      const stopTimer = await vscode.window.showInformationMessage(
+        '문제를 해결하셨나요?',
+        '해결 완료',
+        '계속 풀기'
+      );
+
+      if (stopTimer === '해결 완료') {
+        await this.timerService.stopTimer('solved');
+      }
+    }
+  }
+
+  private getStatusUrl(problemId: string): string {
+    return `https://www.acmicpc.net/status?from_mine=1&problem_id=${problemId}`;
+  }
+
+  dispose(): void {
+    this.trackingId++;
+    this.statusBarItem.dispose();
+  }
 }
@@ -7,20 +7,33 @@ import { SolvedAcService } from './services/SolvedAcService';
 import { AIService, AIProvider } from './services/AIService';
 import { TimerService } from './services/TimerService';
 import { TemplateService } from './services/TemplateService';
+import { AuthService } from './services/AuthService';
+import { TestCaseService } from './services/TestCaseService';
+import { DiagnosticsService } from './services/DiagnosticsService';
 
 // Commands
 import { ViewProblemCommand } from './commands/viewProblem';
 import { CreateProblemCommand } from './commands/createProblem';
 import { RunTestsCommand } from './commands/runTests';
+import { StressTestCommand } from './commands/stressTest';
+import { GenerateEdgeCasesCommand } from './commands/generateEdgeCases';
 import { SubmitCodeCommand } from './commands/submitCode';
 import { GetHintCommand } from './commands/getHint';
 import { PushToGithubCommand } from './commands/pushToGithub';
 import { GetFeedbackCommand } from './commands/getFeedback';
+import { ImportSolvedCommand } from './commands/importSolved';
+import { RandomProblemCommand } from './commands/randomProblem';
 
 // Providers
 import { SidebarProvider } from './providers/SidebarProvider';
 import { StatsViewProvider } from './providers/StatsViewProvider';
 import { AISettingsProvider } from './providers/AISettingsProvider';
+import { CustomTestsProvider } from './providers/CustomTestsProvider';
+import { HintChatProvider } from './providers/HintChatProvider';
+import { DEFAULT_PROFILE, getActiveProfile, listProfiles } from './utils/languageProfiles';
+import { VirtualDocumentProvider } from './providers/VirtualDocumentProvider';
+import { SubmissionHistoryProvider } from './providers/SubmissionHistoryProvider';
+import { TestExplorerProvider } from './providers/TestExplorerProvider';
 
 export function activate(context: vscode.ExtensionContext) {
   console.log('BOJ Mate is now active!');
@@ -30,8 +43,13 @@ export function activate(context: vscode.ExtensionContext) {
   const bojService = new BojService(context, cacheManager);
   const solvedAcService = new SolvedAcService(context, cacheManager);
   const aiService = new AIService(context);
-  const timerService = new TimerService(context);
+  const authService = new AuthService(context, bojService);
+  const timerService = new TimerService(context, authService.getActiveAccount().name);
   const templateService = new TemplateService(context);
+  const testCaseService = new TestCaseService(templateService);
+  const virtualDocuments = new VirtualDocumentProvider();
+  const diagnosticsService = new DiagnosticsService();
+  const testExplorer = new TestExplorerProvider(templateService, testCaseService, diagnosticsService);
 
   // Initialize commands
   const viewProblemCommand = new ViewProblemCommand(bojService, solvedAcService);
@@ -39,18 +57,43 @@ export function activate(context: vscode.ExtensionContext) {
     bojService,
     solvedAcService,
     templateService,
-    timerService
+    timerService,
+    authService
+  );
+  const runTestsCommand = new RunTestsCommand(
+    timerService,
+    templateService,
+    testCaseService,
+    virtualDocuments,
+    testExplorer,
+    diagnosticsService
+  );
+  const stressTestCommand = new StressTestCommand(
+    templateService,
+    testCaseService,
+    virtualDocuments,
+    diagnosticsService
+  );
+  const generateEdgeCasesCommand = new GenerateEdgeCasesCommand(
+    bojService,
+    aiService,
+    templateService,
+    testCaseService,
+    diagnosticsService
   );
-  const runTestsCommand = new RunTestsCommand(timerService, templateService);
   const submitCodeCommand = new SubmitCodeCommand(
     templateService,
-    timerService
+    timerService,
+    bojService,
+    authService
   );
+  const hintChatProvider = new HintChatProvider(context, aiService, templateService, timerService);
   const getHintCommand = new GetHintCommand(
     bojService,
     solvedAcService,
     aiService,
-    templateService
+    templateService,
+    hintChatProvider
   );
   const pushToGithubCommand = new PushToGithubCommand(templateService);
   const getFeedbackCommand = new GetFeedbackCommand(
@@ -59,15 +102,40 @@ export function activate(context: vscode.ExtensionContext) {
     aiService,
     templateService
   );
+  const importSolvedCommand = new ImportSolvedCommand(
+    context,
+    solvedAcService,
+    timerService,
+    authService
+  );
+  const randomProblemCommand = new RandomProblemCommand(context, solvedAcService, authService);
   const statsViewProvider = new StatsViewProvider(timerService);
   const aiSettingsProvider = new AISettingsProvider(context, aiService);
+  const customTestsProvider = new CustomTestsProvider(testCaseService, templateService);
+  const submissionHistoryProvider = new SubmissionHistoryProvider(
+    bojService,
+    authService,
+    templateService,
+    virtualDocuments
+  );
 
   // Register sidebar provider
   const sidebarProvider = new SidebarProvider(
-    context.extensionUri,
+    context,
     timerService,
     solvedAcService,
-    aiService
+    aiService,
+    authService
+  );
+
+  context.subscriptions.push(
+    runTestsCommand,
+    submitCodeCommand,
+    authService,
+    virtualDocuments,
+    diagnosticsService,
+    testExplorer,
+    vscode.workspace.registerTextDocumentContentProvider(VirtualDocumentProvider.scheme, virtualDocuments)
   );
 
   context.subscriptions.push(
@@ -91,10 +159,86 @@ export function activate(context: vscode.ExtensionContext) {
       runTestsCommand.execute(filePath);
     }),
 
+    vscode.commands.registerCommand('bojmate.stressTest', (filePath?: string) => {
+      stressTestCommand.execute(filePath);
+    }),
+
+    vscode.commands.registerCommand('bojmate.generateEdgeCases', (filePath?: string) => {
+      generateEdgeCasesCommand.execute(filePath);
+    }),
+
+    vscode.commands.registerCommand('bojmate.showTestDiff', () => {
+      runTestsCommand.showFailedDiff();
+    }),
+
+    vscode.commands.registerCommand('bojmate.selectChecker', (filePath?: string) => {
+      runTestsCommand.selectChecker(filePath);
+    }),
+
+    vscode.commands.registerCommand('bojmate.configureInteractive', (filePath?: string) => {
+      runTestsCommand.configureInteractive(filePath);
+    }),
+
+    vscode.commands.registerCommand('bojmate.manageTestCases', (filePath?: string) => {
+      customTestsProvider.show(filePath);
+    }),
+
+    vscode.commands.registerCommand('bojmate.addTestCase', () => {
+      // 선택한 텍스트가 있으면 입력으로 사용
+      const editor = vscode.window.activeTextEditor;
+      const selection = editor && !editor.selection.isEmpty
+        ? editor.document.getText(editor.selection)
+        : '';
+      customTestsProvider.show(undefined, selection);
+    }),
+
+    vscode.commands.registerCommand('bojmate.selectLanguageProfile', async () => {
+      const current = getActiveProfile();
+      const profileItems = listProfiles().map((name) => ({
+        label: name,
+        description: [
+          name === DEFAULT_PROFILE ? '채점 서버와 같은 옵션' : undefined,
+          name === current ? '현재 설정' : undefined
+        ].filter(Boolean).join(' · ') || undefined
+      }));
+
+      const selected = await vscode.window.showQuickPick(profileItems, {
+        placeHolder: '컴파일/실행 프로필 선택 (bojmate.languages에서 프로필 추가 가능)'
+      });
+      if (selected) {
+        const config = vscode.workspace.getConfiguration('bojmate');
+        await config.update('languageProfile', selected.label, vscode.ConfigurationTarget.Global);
+        vscode.window.showInformationMessage(`실행 프로필 변경: ${selected.label}`);
+      }
+    }),
+
     vscode.commands.registerCommand('bojmate.submitCode', (filePath?: string) => {
       submitCodeCommand.execute(filePath);
     }),
 
+    vscode.commands.registerCommand('bojmate.saveCookie', async () => {
+      await authService.promptForCookie();
+    }),
+
+    vscode.commands.registerCommand('bojmate.logout', async () => {
+      const confirm = await vscode.window.showWarningMessage(
+        '저장된 로그인 쿠키를 삭제할까요?',
+        { modal: true },
+        '로그아웃'
+      );
+      if (confirm === '로그아웃') {
+        await authService.clearCookies();
+      }
+    }),
+
+    vscode.commands.registerCommand('bojmate.switchAccount', async () => {
+      await authService.selectAccount();
+    }),
+
+    vscode.commands.registerCommand('bojmate.showSubmissions', (problemId?: string) => {
+      submissionHistoryProvider.show(problemId);
+    }),
+
     vscode.commands.registerCommand('bojmate.getHint', (problemId?: string) => {
       getHintCommand.execute(problemId);
     }),
@@ -111,6 +255,14 @@ export function activate(context: vscode.ExtensionContext) {
       statsViewProvider.show();
     }),
 
+    vscode.commands.registerCommand('bojmate.importSolved', () => {
+      importSolvedCommand.execute();
+    }),
+
+    vscode.commands.registerCommand('bojmate.randomProblem', () => {
+      randomProblemCommand.execute();
+    }),
+
     // AI 설정 명령 - Webview 패널 열기
     vscode.commands.registerCommand('bojmate.configureAI', async () => {
       await aiSettingsProvider.show();
@@ -173,11 +325,11 @@ export function activate(context: vscode.ExtensionContext) {
         const tierName = solvedInfo
           ? solvedAcService.getTierFromLevel(tier).name
           : 'Unknown';
+        const tags = solvedInfo ? solvedAcService.getTagsKorean(solvedInfo) : [];
 
-        const config = vscode.workspace.getConfiguration('bojmate');
-        const language = config.get<string>('language', 'py');
+        const language = authService.getDefaultLanguage();
 
-        await timerService.startTimer(problemId, problem.title, tier, tierName, language);
+        await timerService.startTimer(problemId, problem.title, tier, tierName, language, tags);
         sidebarProvider.refresh();
       }
     }),
@@ -241,6 +393,16 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // 로그인 상태가 바뀌면 사이드바 갱신, 계정이 바뀌면 해당 계정의 풀이 기록으로 전환
+  context.subscriptions.push(
+    authService.onDidChangeSession(() => sidebarProvider.refresh()),
+    authService.onDidChangeAccount(async (account) => {
+      await timerService.switchAccount(account.name);
+      sidebarProvider.refresh();
+      authService.validateSession();
+    })
+  );
+
   // Watch for configuration changes
   context.subscriptions.push(
     vscode.workspace.onDidChangeConfiguration((e) => {
@@ -250,6 +412,9 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // 저장된 세션이 아직 유효한지 백그라운드에서 확인
+  authService.validateSession();
+
   // Show welcome message on first install
   const hasShownWelcome = context.globalState.get('bojmate.welcomeShown');
   if (!hasShownWelcome) {
@@ -0,0 +1,126 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { markdownToHtml, webviewStyles } from '../utils/markdown';
+
+// 스트리밍 중 다시 그리는 최소 간격
+const RENDER_INTERVAL_MS = 100;
+
+/**
+ * AI 응답을 생성되는 대로 보여주는 패널
+ * 패널을 닫거나 "중단"을 누르면 token이 취소된다.
+ */
+export class AIResponsePanel {
+  private panel: vscode.WebviewPanel;
+  private cancellation = new vscode.CancellationTokenSource();
+  private headerHtml: string;
+  private content = '';
+  private renderTimer?: NodeJS.Timeout;
+  private disposed = false;
+
+  constructor(viewType: string, title: string, headerHtml: string) {
+    this.headerHtml = headerHtml;
+    this.panel = vscode.window.createWebviewPanel(viewType, title, vscode.ViewColumn.Beside, { enableScripts: true });
+    this.panel.webview.html = this.getHtml(true);
+
+    this.panel.webview.onDidReceiveMessage((message) => {
+      if (message.command === 'cancel') {
+        this.cancel();
+      }
+    });
+    this.panel.onDidDispose(() => {
+      this.disposed = true;
+      this.cancel();
+      clearTimeout(this.renderTimer);
+    });
+  }
+
+  get token(): vscode.CancellationToken {
+    return this.cancellation.token;
+  }
+
+  cancel(): void {
+    this.cancellation.cancel();
+  }
+
+  /**
+   * 지금까지 받은 응답으로 갱신 (RENDER_INTERVAL_MS마다 한 번만 그림)
+   */
+  update(content: string): void {
+    this.content = content;
+    if (this.renderTimer || this.disposed) {
+      return;
+    }
+    this.renderTimer = setTimeout(() => {
+      this.renderTimer = undefined;
+      if (!this.disposed) {
+        this.panel.webview.postMessage({ command: 'render', html: markdownToHtml(this.content) });
+      }
+    }, RENDER_INTERVAL_MS);
+  }
+
+  /**
+   * 생성 완료 (취소됐으면 그때까지 받은 응답과 함께 중단 표시)
+   */
+  finish(content: string): void {
+    if (this.disposed) {
+      return;
+    }
+    clearTimeout(this.renderTimer);
+    this.renderTimer = undefined;
+    this.content = content;
+    // 웹뷰 스크립트가 아직 로드되지 않았을 수 있으므로 메시지 대신 HTML을 새로 설정
+    this.panel.webview.html = this.getHtml(false);
+  }
+
+  dispose(): void {
+    this.panel.dispose();
+  }
+
+  private getHtml(streaming: boolean): string {
+    const nonce = crypto.randomBytes(16).toString('base64');
+    const cancelled = !streaming && this.cancellation.token.isCancellationRequested;
+    const status = streaming
+      ? '<div class="stream-status">생성 중... <button>중단</button></div>'
+      : cancelled ? '<div class="stream-status">⏹ 생성을 중단했습니다.</div>' : '';
+
+    // AI 응답이 그대로 들어가므로 nonce가 있는 스크립트만 실행되게 한다
+    return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <style>
+    ${webviewStyles()}
+    .stream-status {
+      font-size: 12px;
+      color: var(--vscode-descriptionForeground);
+      margin: 8px 0;
+    }
+    .stream-status button {
+      margin-left: 8px;
+      padding: 2px 10px;
+      font-size: 12px;
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+      border: none; border-radius: 3px; cursor: pointer;
+    }
+  </style>
+</head>
+<body>
+  ${this.headerHtml}
+  <div class="markdown-body" id="content">${markdownToHtml(this.content)}</div>
+  <div id="status">${status}</div>
+  ${streaming ? `<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    function cancel() { vscode.postMessage({ command: 'cancel' }); }
+    document.querySelector('#status button').addEventListener('click', cancel);
+    window.addEventListener('message', e => {
+      if (e.data.command === 'render') {
+        document.getElementById('content').innerHTML = e.data.html;
+      }
+    });
+  </script>` : ''}
+</body>
+</html>`;
+  }
+}
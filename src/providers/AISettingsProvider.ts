@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
-import { AIService, AIProvider, AIModel } from '../services/AIService';
+import { AIService } from '../services/AIService';
+import { AI_PROVIDERS } from '../services/ai';
 
 export class AISettingsProvider {
   private panel: vscode.WebviewPanel | undefined;
@@ -45,6 +46,9 @@ export class AISettingsProvider {
         case 'updateBaseUrl':
           await this.aiService.updateSettings({ baseUrl: message.value });
           break;
+        case 'updateApiVersion':
+          await this.aiService.updateSettings({ apiVersion: message.value });
+          break;
         case 'updateApiKey':
           await this.aiService.setApiKey(message.value);
           break;
@@ -135,6 +139,16 @@ export class AISettingsProvider {
   }
 
   private getHtmlContent(): string {
+    // 프로바이더 목록과 입력란 표시 여부는 등록된 어댑터에서 가져온다
+    const providers = Object.entries(AI_PROVIDERS).map(([id, adapter]) => ({
+      id,
+      label: adapter.label,
+      apiKeyDescription: adapter.apiKeyDescription,
+      showBaseUrl: !adapter.baseUrl,
+      baseUrlPlaceholder: adapter.defaultBaseUrl || 'http://localhost:8000/v1',
+      usesApiVersion: !!adapter.usesApiVersion
+    }));
+
     return `<!DOCTYPE html>
 <html lang="ko">
 <head>
@@ -344,20 +358,21 @@ export class AISettingsProvider {
     <!-- Provider -->
     <div class="form-group">
       <label>Provider</label>
-      <select id="provider" onchange="onProviderChange()">
-        <option value="openai">OpenAI (GPT-4, GPT-4o)</option>
-        <option value="anthropic">Anthropic (Claude)</option>
-        <option value="google">Google (Gemini)</option>
-        <option value="openrouter">OpenRouter</option>
-        <option value="local">Local / Custom</option>
-      </select>
+      <select id="provider" onchange="onProviderChange()"></select>
     </div>
 
-    <!-- Base URL (for local) -->
+    <!-- Base URL (고정 주소가 없는 프로바이더) -->
     <div id="baseUrlGroup" class="form-group hidden">
       <label>Base URL</label>
-      <input type="text" id="baseUrl" placeholder="http://localhost:11434/v1" onchange="onBaseUrlChange()">
-      <div class="description">로컬 서버 또는 커스텀 API 엔드포인트 URL</div>
+      <input type="text" id="baseUrl" onchange="onBaseUrlChange()">
+      <div class="description">서버 또는 엔드포인트 URL (비워두면 예시 주소 사용)</div>
+    </div>
+
+    <!-- API Version (Azure OpenAI) -->
+    <div id="apiVersionGroup" class="form-group hidden">
+      <label>API Version</label>
+      <input type="text" id="apiVersion" placeholder="2024-10-21" onchange="onApiVersionChange()">
+      <div class="description">비워두면 기본값 사용</div>
     </div>
 
     <!-- API Key -->
@@ -379,6 +394,7 @@ export class AISettingsProvider {
         </button>
       </div>
       <div id="connectionStatus"></div>
+      <input type="text" id="modelInput" placeholder="또는 모델 이름 직접 입력 (배포 이름, 추론 프로필 ID 등)" onchange="onModelInput()" style="margin-top: 8px;">
     </div>
 
     <!-- Hint Level & Timeout -->
@@ -420,13 +436,23 @@ export class AISettingsProvider {
 
     function escMsg(s) { if (!s) return ''; const d = document.createElement('div'); d.textContent = s; return d.innerHTML; }
 
-    const providerDescriptions = {
-      openai: 'OpenAI API 키를 입력하세요',
-      anthropic: 'Anthropic API 키를 입력하세요',
-      google: 'Google AI API 키를 입력하세요',
-      openrouter: 'OpenRouter API 키를 입력하세요',
-      local: 'API 키 (선택사항)'
-    };
+    const providers = ${JSON.stringify(providers).replace(/</g, '\\u003c')};
+
+    const providerSelect = document.getElementById('provider');
+    providers.forEach(p => {
+      const option = document.createElement('option');
+      option.value = p.id;
+      option.textContent = p.label;
+      providerSelect.appendChild(option);
+    });
+
+    function applyProviderFields(id) {
+      const provider = providers.find(p => p.id === id) || providers[0];
+      document.getElementById('baseUrlGroup').classList.toggle('hidden', !provider.showBaseUrl);
+      document.getElementById('baseUrl').placeholder = provider.baseUrlPlaceholder;
+      document.getElementById('apiVersionGroup').classList.toggle('hidden', !provider.usesApiVersion);
+      document.getElementById('apiKeyDesc').textContent = provider.apiKeyDescription;
+    }
 
     function toggleEnabled() {
       const toggle = document.getElementById('enableToggle');
@@ -438,11 +464,7 @@ export class AISettingsProvider {
 
     function onProviderChange() {
       const provider = document.getElementById('provider').value;
-      const baseUrlGroup = document.getElementById('baseUrlGroup');
-      const apiKeyDesc = document.getElementById('apiKeyDesc');
-
-      baseUrlGroup.classList.toggle('hidden', provider !== 'local');
-      apiKeyDesc.textContent = providerDescriptions[provider];
+      applyProviderFields(provider);
 
       vscode.postMessage({ command: 'updateProvider', value: provider });
       resetModelSelection();
@@ -454,6 +476,11 @@ export class AISettingsProvider {
       resetModelSelection();
     }
 
+    function onApiVersionChange() {
+      const apiVersion = document.getElementById('apiVersion').value.trim();
+      vscode.postMessage({ command: 'updateApiVersion', value: apiVersion });
+    }
+
     function onApiKeyChange() {
       const apiKey = document.getElementById('apiKey').value;
       vscode.postMessage({ command: 'updateApiKey', value: apiKey });
@@ -491,6 +518,14 @@ export class AISettingsProvider {
       }
     }
 
+    function onModelInput() {
+      const modelId = document.getElementById('modelInput').value.trim();
+      if (modelId) {
+        settings.model = modelId;
+        vscode.postMessage({ command: 'updateModel', value: modelId });
+      }
+    }
+
     function onAdvancedParamsChange() {
       const value = document.getElementById('advancedParams').value.trim();
       if (!value) {
@@ -520,11 +555,11 @@ export class AISettingsProvider {
 
       // Provider
       document.getElementById('provider').value = data.provider;
-      document.getElementById('baseUrlGroup').classList.toggle('hidden', data.provider !== 'local');
-      document.getElementById('apiKeyDesc').textContent = providerDescriptions[data.provider];
+      applyProviderFields(data.provider);
 
-      // Base URL
+      // Base URL, API Version
       document.getElementById('baseUrl').value = data.baseUrl || '';
+      document.getElementById('apiVersion').value = data.apiVersion || '';
 
       // API Key
       document.getElementById('apiKey').value = data.apiKey || '';
@@ -533,7 +568,7 @@ export class AISettingsProvider {
       // Model - 저장된 모델이 있으면 옵션에 추가
       const modelSelect = document.getElementById('modelSelect');
       if (data.model) {
-        modelSelect.innerHTML = '<option value="">모델 선택...</option><option value="' + data.model + '" selected>' + data.model + '</option>';
+        modelSelect.innerHTML = '<option value="">모델 선택...</option><option value="' + escMsg(data.model) + '" selected>' + escMsg(data.model) + '</option>';
       }
 
       // Hint Level
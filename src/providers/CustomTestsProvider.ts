@@ -0,0 +1,359 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TestCaseService } from '../services/TestCaseService';
+import { TemplateService } from '../services/TemplateService';
+import { CustomTestCase } from '../types';
+
+// 웹뷰 → 확장 메시지
+type CustomTestsMessage =
+  | { command: 'ready' | 'rendered' | 'openFile' | 'runTests' }
+  | { command: 'add'; name: string; input: string; output: string }
+  | { command: 'update'; id: string; name: string; input: string; output: string }
+  | { command: 'toggle'; id: string; enabled: boolean }
+  | { command: 'duplicate' | 'delete'; id: string };
+
+export class CustomTestsProvider {
+  private panel: vscode.WebviewPanel | undefined;
+  private filePath: string | undefined;
+  private pendingInput: string | undefined;
+  private testCaseService: TestCaseService;
+  private templateService: TemplateService;
+
+  constructor(testCaseService: TestCaseService, templateService: TemplateService) {
+    this.testCaseService = testCaseService;
+    this.templateService = templateService;
+  }
+
+  async show(filePath?: string, initialInput?: string): Promise<void> {
+    if (!filePath) {
+      filePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+    }
+    const problemId = filePath ? this.templateService.findProblemIdFromPath(filePath) : null;
+    if (!filePath || !problemId) {
+      vscode.window.showErrorMessage('문제 파일을 열고 다시 시도해주세요.');
+      return;
+    }
+
+    this.filePath = filePath;
+    this.pendingInput = initialInput;
+
+    if (this.panel) {
+      this.panel.title = `🧪 ${problemId}번 테스트 케이스`;
+      this.panel.reveal();
+    } else {
+      this.panel = vscode.window.createWebviewPanel(
+        'bojmateCustomTests',
+        `🧪 ${problemId}번 테스트 케이스`,
+        vscode.ViewColumn.Beside,
+        {
+          enableScripts: true,
+          retainContextWhenHidden: true
+        }
+      );
+
+      this.panel.webview.html = this.getHtmlContent();
+      this.panel.webview.onDidReceiveMessage((message) => this.handleMessage(message));
+      this.panel.onDidDispose(() => {
+        this.panel = undefined;
+      });
+    }
+
+    this.sendTestCases();
+  }
+
+  private async handleMessage(message: CustomTestsMessage): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) {
+      return;
+    }
+
+    try {
+      switch (message.command) {
+        case 'ready':
+          break;
+        case 'rendered':
+          // 웹뷰가 준비된 뒤에 추가 폼을 연다
+          if (this.pendingInput !== undefined) {
+            this.panel?.webview.postMessage({ command: 'openForm', input: this.pendingInput });
+            this.pendingInput = undefined;
+          }
+          return;
+        case 'add':
+          this.testCaseService.addCustomTest(filePath, message.input, message.output, message.name);
+          break;
+        case 'update':
+          this.testCaseService.updateCustomTest(filePath, message.id, {
+            name: message.name,
+            input: message.input,
+            output: message.output
+          });
+          break;
+        case 'toggle':
+          this.testCaseService.updateCustomTest(filePath, message.id, { enabled: message.enabled });
+          break;
+        case 'duplicate':
+          this.testCaseService.duplicateCustomTest(filePath, message.id);
+          break;
+        case 'delete': {
+          const confirm = await vscode.window.showWarningMessage(
+            '이 테스트 케이스를 삭제할까요?',
+            { modal: true },
+            '삭제'
+          );
+          if (confirm === '삭제') {
+            this.testCaseService.deleteCustomTest(filePath, message.id);
+          }
+          break;
+        }
+        case 'openFile': {
+          const testsPath = this.testCaseService.getCustomTestsPath(filePath);
+          if (testsPath) {
+            if (this.testCaseService.loadCustomTests(filePath).length === 0) {
+              this.testCaseService.saveCustomTests(filePath, []);
+            }
+            const document = await vscode.workspace.openTextDocument(testsPath);
+            await vscode.window.showTextDocument(document);
+          }
+          return;
+        }
+        case 'runTests':
+          vscode.commands.executeCommand('bojmate.runTests', filePath);
+          return;
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`테스트 케이스 저장 실패: ${error instanceof Error ? error.message : error}`);
+    }
+
+    this.sendTestCases();
+  }
+
+  private sendTestCases(): void {
+    if (!this.panel || !this.filePath) {
+      return;
+    }
+
+    let customs: CustomTestCase[] = [];
+    try {
+      customs = this.testCaseService.loadCustomTests(this.filePath);
+    } catch (error) {
+      vscode.window.showErrorMessage(`${error instanceof Error ? error.message : error}`);
+    }
+
+    const samples = this.testCaseService.loadSampleTestCases(this.filePath);
+
+    this.panel.webview.postMessage({
+      command: 'testCases',
+      fileName: path.basename(this.filePath),
+      testsFile: path.basename(this.testCaseService.getCustomTestsPath(this.filePath) || ''),
+      samples,
+      customs
+    });
+  }
+
+  private getHtmlContent(): string {
+    return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline';">
+  <title>테스트 케이스</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: var(--vscode-font-family);
+      font-size: 13px;
+      color: var(--vscode-foreground);
+      background: var(--vscode-editor-background);
+      padding: 20px;
+    }
+    h1 { font-size: 18px; margin-bottom: 4px; }
+    .subtitle { font-size: 12px; color: var(--vscode-descriptionForeground); margin-bottom: 16px; }
+    .toolbar { display: flex; gap: 8px; margin-bottom: 16px; }
+    button {
+      padding: 5px 12px;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 12px;
+    }
+    .btn-primary { background: var(--vscode-button-background); color: var(--vscode-button-foreground); }
+    .btn-primary:hover { background: var(--vscode-button-hoverBackground); }
+    .btn-secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+    .btn-secondary:hover { background: var(--vscode-button-secondaryHoverBackground); }
+    .case {
+      border: 1px solid var(--vscode-panel-border);
+      border-radius: 6px;
+      margin-bottom: 10px;
+      overflow: hidden;
+    }
+    .case.disabled { opacity: 0.5; }
+    .case-header {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 6px 10px;
+      background: var(--vscode-sideBar-background);
+    }
+    .case-header .name { flex: 1; font-weight: bold; }
+    .label {
+      font-size: 10px;
+      padding: 1px 6px;
+      border-radius: 8px;
+      background: var(--vscode-badge-background);
+      color: var(--vscode-badge-foreground);
+    }
+    .label.custom { background: #6f42c1; color: white; }
+    .case-body { display: grid; grid-template-columns: 1fr 1fr; gap: 1px; background: var(--vscode-panel-border); }
+    .case-body > div { background: var(--vscode-editor-background); padding: 8px; }
+    .field-title { font-size: 11px; color: var(--vscode-descriptionForeground); margin-bottom: 4px; }
+    pre {
+      font-family: var(--vscode-editor-font-family);
+      font-size: 12px;
+      white-space: pre-wrap;
+      max-height: 160px;
+      overflow: auto;
+    }
+    .muted { color: var(--vscode-descriptionForeground); font-style: italic; }
+    .form {
+      border: 1px solid var(--vscode-focusBorder);
+      border-radius: 6px;
+      padding: 12px;
+      margin-bottom: 16px;
+    }
+    .form input, .form textarea {
+      width: 100%;
+      padding: 6px 8px;
+      margin-bottom: 8px;
+      border: 1px solid var(--vscode-input-border);
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border-radius: 4px;
+      font-family: var(--vscode-editor-font-family);
+      font-size: 12px;
+    }
+    .form textarea { min-height: 90px; resize: vertical; }
+    .form .row { display: grid; grid-template-columns: 1fr 1fr; gap: 8px; }
+    .form .actions { display: flex; justify-content: flex-end; gap: 8px; }
+    .hidden { display: none !important; }
+    h2 { font-size: 14px; margin: 18px 0 8px; }
+    .empty-msg { color: var(--vscode-descriptionForeground); padding: 12px; text-align: center; }
+  </style>
+</head>
+<body>
+  <h1>🧪 테스트 케이스</h1>
+  <div class="subtitle" id="subtitle"></div>
+
+  <div class="toolbar">
+    <button class="btn-primary" onclick="openForm()">+ 커스텀 케이스 추가</button>
+    <button class="btn-secondary" onclick="post('runTests')">▶ 전체 실행</button>
+    <button class="btn-secondary" onclick="post('openFile')">JSON 파일 열기</button>
+  </div>
+
+  <div id="form" class="form hidden">
+    <input type="text" id="formName" placeholder="이름 (예: N = 1 경계값)">
+    <div class="row">
+      <div>
+        <div class="field-title">입력</div>
+        <textarea id="formInput" spellcheck="false"></textarea>
+      </div>
+      <div>
+        <div class="field-title">예상 출력 (비워두면 출력만 확인)</div>
+        <textarea id="formOutput" spellcheck="false"></textarea>
+      </div>
+    </div>
+    <div class="actions">
+      <button class="btn-secondary" onclick="closeForm()">취소</button>
+      <button class="btn-primary" onclick="submitForm()">저장</button>
+    </div>
+  </div>
+
+  <h2>커스텀</h2>
+  <div id="customs"></div>
+
+  <h2>예제</h2>
+  <div id="samples"></div>
+
+  <script>
+    const vscode = acquireVsCodeApi();
+    let customs = [];
+    let editingId = null;
+
+    function esc(s) { if (s === undefined || s === null) return ''; const d = document.createElement('div'); d.textContent = s; return d.innerHTML; }
+    function post(command, extra) { vscode.postMessage(Object.assign({ command }, extra || {})); }
+
+    function openForm(id, input) {
+      editingId = id || null;
+      const tc = customs.find(c => c.id === id);
+      document.getElementById('formName').value = tc ? tc.name : '';
+      document.getElementById('formInput').value = tc ? tc.input : (input || '');
+      document.getElementById('formOutput').value = tc && tc.output !== undefined ? tc.output : '';
+      document.getElementById('form').classList.remove('hidden');
+      document.getElementById('formInput').focus();
+    }
+
+    function closeForm() {
+      editingId = null;
+      document.getElementById('form').classList.add('hidden');
+    }
+
+    function submitForm() {
+      const name = document.getElementById('formName').value;
+      const input = document.getElementById('formInput').value;
+      const output = document.getElementById('formOutput').value;
+      if (editingId) {
+        post('update', { id: editingId, name, input, output });
+      } else {
+        post('add', { name, input, output });
+      }
+      closeForm();
+    }
+
+    function renderCase(tc, isCustom) {
+      const output = tc.output === undefined || tc.output === null || (isCustom && tc.output === '')
+        ? '<span class="muted">(없음 - 출력만 확인)</span>'
+        : esc(tc.output);
+      const actions = isCustom
+        ? '<button class="btn-secondary" onclick="openForm(\\'' + esc(tc.id) + '\\')">편집</button>' +
+          '<button class="btn-secondary" onclick="post(\\'duplicate\\', { id: \\'' + esc(tc.id) + '\\' })">복제</button>' +
+          '<button class="btn-secondary" onclick="post(\\'toggle\\', { id: \\'' + esc(tc.id) + '\\', enabled: ' + !tc.enabled + ' })">' + (tc.enabled ? '비활성화' : '활성화') + '</button>' +
+          '<button class="btn-secondary" onclick="post(\\'delete\\', { id: \\'' + esc(tc.id) + '\\' })">삭제</button>'
+        : '';
+      return '<div class="case' + (isCustom && !tc.enabled ? ' disabled' : '') + '">' +
+        '<div class="case-header">' +
+          '<span class="label' + (isCustom ? ' custom' : '') + '">' + (isCustom ? 'custom' : 'sample') + '</span>' +
+          '<span class="name">' + esc(isCustom ? tc.name : tc.label) + '</span>' + actions +
+        '</div>' +
+        '<div class="case-body">' +
+          '<div><div class="field-title">입력</div><pre>' + esc(tc.input) + '</pre></div>' +
+          '<div><div class="field-title">예상 출력</div><pre>' + output + '</pre></div>' +
+        '</div>' +
+      '</div>';
+    }
+
+    window.addEventListener('message', e => {
+      const msg = e.data;
+      switch (msg.command) {
+        case 'testCases':
+          customs = msg.customs;
+          document.getElementById('subtitle').textContent = msg.fileName + ' · ' + msg.testsFile;
+          document.getElementById('customs').innerHTML = customs.length > 0
+            ? customs.map(tc => renderCase(tc, true)).join('')
+            : '<div class="empty-msg">커스텀 테스트 케이스가 없습니다</div>';
+          document.getElementById('samples').innerHTML = msg.samples.length > 0
+            ? msg.samples.map(tc => renderCase(tc, false)).join('')
+            : '<div class="empty-msg">예제가 없습니다</div>';
+          post('rendered');
+          break;
+        case 'openForm':
+          openForm(null, msg.input);
+          break;
+      }
+    });
+
+    post('ready');
+  </script>
+</body>
+</html>`;
+  }
+}
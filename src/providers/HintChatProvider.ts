@@ -0,0 +1,541 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { AIService } from '../services/AIService';
+import { TemplateService } from '../services/TemplateService';
+import { TimerService } from '../services/TimerService';
+import { HintChatMessage, HintLevel, HintUsage, Problem, SolveRecord } from '../types';
+import { markdownToHtml, webviewStyles } from '../utils/markdown';
+import { HINT_LADDER, HINT_LEVEL_LABELS, HintLadderState, getHintLadderState } from '../utils/hintLadder';
+
+const HINT_CHATS_KEY = 'bojmate.hintChats';
+// 문제당 저장하는 최대 메시지 수
+const MAX_MESSAGES = 50;
+// 스트리밍 중 다시 그리는 최소 간격
+const RENDER_INTERVAL_MS = 100;
+
+export interface HintRequest {
+  question: string;
+  level?: HintLevel | 'more';
+}
+
+// 웹뷰 → 확장 메시지
+type HintChatMessageFromWebview =
+  | { command: 'ready' | 'cancel' | 'clear' }
+  | { command: 'ask'; text?: string }
+  | { command: 'askLevel'; level: HintLevel | 'more' };
+
+/**
+ * 문제별 힌트 대화 패널
+ * 대화 기록은 문제 번호별로 저장해 다시 열면 이어서 물어볼 수 있다.
+ */
+export class HintChatProvider {
+  private panel: vscode.WebviewPanel | undefined;
+  private problem: Problem | undefined;
+  private context: vscode.ExtensionContext;
+  private aiService: AIService;
+  private templateService: TemplateService;
+  private timerService: TimerService;
+  private cancellation: vscode.CancellationTokenSource | undefined;
+  private pending: Promise<void> | undefined;
+  private streamingContent = '';
+  private renderTimer?: NodeJS.Timeout;
+
+  constructor(
+    context: vscode.ExtensionContext,
+    aiService: AIService,
+    templateService: TemplateService,
+    timerService: TimerService
+  ) {
+    this.context = context;
+    this.aiService = aiService;
+    this.templateService = templateService;
+    this.timerService = timerService;
+  }
+
+  getConversation(problemId: string): HintChatMessage[] {
+    return this.context.globalState.get<Record<string, HintChatMessage[]>>(HINT_CHATS_KEY, {})[problemId] || [];
+  }
+
+  private async saveConversation(problemId: string, messages: HintChatMessage[]): Promise<void> {
+    const chats = { ...this.context.globalState.get<Record<string, HintChatMessage[]>>(HINT_CHATS_KEY, {}) };
+    let trimmed = messages.slice(-MAX_MESSAGES);
+    // 대화는 항상 사용자 메시지로 시작해야 한다
+    while (trimmed.length > 0 && trimmed[0].role !== 'user') {
+      trimmed = trimmed.slice(1);
+    }
+    if (trimmed.length > 0) {
+      chats[problemId] = trimmed;
+    } else {
+      delete chats[problemId];
+    }
+    await this.context.globalState.update(HINT_CHATS_KEY, chats);
+  }
+
+  async show(problem: Problem, request?: HintRequest): Promise<void> {
+    // 다른 문제로 바뀌면 진행 중인 답변은 중단하고 저장이 끝날 때까지 기다림
+    if (this.problem?.id !== problem.id && this.pending) {
+      this.cancellation?.cancel();
+      await this.pending;
+    }
+    this.problem = problem;
+
+    if (this.panel) {
+      this.panel.title = `힌트: ${problem.id}번`;
+      this.panel.reveal();
+      this.postConversation();
+    } else {
+      this.panel = vscode.window.createWebviewPanel(
+        'bojmateHint',
+        `힌트: ${problem.id}번`,
+        vscode.ViewColumn.Beside,
+        {
+          enableScripts: true,
+          retainContextWhenHidden: true
+        }
+      );
+      this.panel.webview.html = this.getHtmlContent();
+      this.panel.webview.onDidReceiveMessage((message) => this.handleMessage(message));
+      this.panel.onDidDispose(() => {
+        this.panel = undefined;
+        this.cancellation?.cancel();
+      });
+    }
+
+    if (request) {
+      await this.ask(request);
+    }
+  }
+
+  private async handleMessage(message: HintChatMessageFromWebview): Promise<void> {
+    switch (message.command) {
+      case 'ready':
+        this.postConversation();
+        break;
+      case 'ask':
+        if (message.text?.trim()) {
+          await this.ask({ question: message.text.trim() });
+        }
+        break;
+      case 'askLevel':
+        await this.ask({ question: this.aiService.getHintRequest(message.level), level: message.level });
+        break;
+      case 'cancel':
+        this.cancellation?.cancel();
+        break;
+      case 'clear': {
+        if (!this.problem || this.pending) {
+          return;
+        }
+        const confirm = await vscode.window.showWarningMessage(
+          `${this.problem.id}번 힌트 대화를 지울까요?`,
+          { modal: true },
+          '지우기'
+        );
+        if (confirm === '지우기') {
+          await this.saveConversation(this.problem.id, []);
+          this.postConversation();
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * 힌트 사다리 상태 (사다리 모드가 꺼져 있으면 undefined)
+   * 이 문제의 타이머가 실행 중이 아니면 아무 단계도 열리지 않은 상태로 본다.
+   */
+  getLadderState(problemId: string): HintLadderState | undefined {
+    const config = vscode.workspace.getConfiguration('bojmate.hintLadder');
+    if (!config.get<boolean>('enabled', false)) {
+      return undefined;
+    }
+    const record = this.getSolvingRecord(problemId);
+    const minIntervalMs = config.get<number>('minMinutes', 10) * 60000;
+    return getHintLadderState(record?.hints || [], record ? Date.now() - record.startTime : 0, minIntervalMs);
+  }
+
+  isSolving(problemId: string): boolean {
+    return !!this.getSolvingRecord(problemId);
+  }
+
+  private getSolvingRecord(problemId: string): SolveRecord | undefined {
+    const record = this.timerService.getCurrentRecord();
+    return record?.problemId === problemId && record.status === 'solving' ? record : undefined;
+  }
+
+  /**
+   * 사다리 모드에서 요청을 확인하고, "한 단계 더"는 다음 단계 요청으로 바꾼다
+   * 아직 열 수 없으면 이유를 문자열로 반환
+   */
+  private checkLadder(problemId: string, request: HintRequest): HintRequest | string {
+    const state = this.getLadderState(problemId);
+    if (!state) {
+      return request;
+    }
+    if (!this.isSolving(problemId)) {
+      return '힌트 사다리 모드에서는 이 문제의 풀이 타이머가 실행 중일 때만 힌트를 받을 수 있습니다.';
+    }
+
+    let level = request.level;
+    if (level === 'more') {
+      if (!state.next) {
+        return request;
+      }
+      level = state.next;
+      request = { question: this.aiService.getHintRequest(level), level };
+    }
+
+    if (!level) {
+      return state.unlocked.length > 0
+        ? request
+        : `먼저 '${HINT_LEVEL_LABELS[HINT_LADDER[0]]}' 힌트를 받아야 질문할 수 있습니다.`;
+    }
+    if (state.unlocked.includes(level)) {
+      return request;
+    }
+    if (level !== state.next) {
+      return `먼저 '${HINT_LEVEL_LABELS[state.next!]}' 힌트를 받아야 합니다.`;
+    }
+    if (state.waitMs > 0) {
+      return `'${HINT_LEVEL_LABELS[level]}' 힌트는 ${Math.ceil(state.waitMs / 60000)}분 뒤에 열립니다.`;
+    }
+    return request;
+  }
+
+  private async ask(request: HintRequest): Promise<void> {
+    if (!this.problem || this.pending) {
+      return;
+    }
+
+    const checked = this.checkLadder(this.problem.id, request);
+    if (typeof checked === 'string') {
+      if (!request.level) {
+        this.panel?.webview.postMessage({ command: 'restoreInput', text: request.question });
+      }
+      vscode.window.showWarningMessage(`🪜 ${checked}`);
+      return;
+    }
+
+    this.pending = this.requestHint(this.problem, checked);
+    await this.pending;
+    this.pending = undefined;
+  }
+
+  private async requestHint(problem: Problem, request: HintRequest): Promise<void> {
+    const messages = [
+      ...this.getConversation(problem.id),
+      { role: 'user' as const, content: request.question, level: request.level, createdAt: Date.now() }
+    ];
+    await this.saveConversation(problem.id, messages);
+
+    const cancellation = new vscode.CancellationTokenSource();
+    this.cancellation = cancellation;
+    this.streamingContent = '';
+    this.postConversation();
+
+    // 사다리 모드의 직접 질문은 이미 연 단계까지만 답하게 한다
+    const maxLevel = this.getLadderState(problem.id)?.unlocked.slice(-1)[0];
+
+    try {
+      const content = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: 'AI 힌트 생성 중...',
+          cancellable: true
+        },
+        (_progress, token) => {
+          token.onCancellationRequested(() => cancellation.cancel());
+          return this.aiService.chatHint(
+            problem,
+            messages,
+            this.getUserCode(problem.id),
+            {
+              onDelta: (partial) => this.renderStreaming(problem.id, partial),
+              token: cancellation.token
+            },
+            request.level ? undefined : maxLevel
+          );
+        }
+      );
+
+      const cancelled = cancellation.token.isCancellationRequested;
+      if (content.trim() || !cancelled) {
+        messages.push({
+          role: 'assistant',
+          content: cancelled ? `${content}\n\n_(생성을 중단했습니다)_` : content,
+          createdAt: Date.now()
+        });
+        await this.recordHintUsage(problem.id, request.level);
+      } else {
+        // 아무것도 받지 못하고 중단했으면 질문도 되돌린다
+        messages.pop();
+      }
+      await this.saveConversation(problem.id, messages);
+    } catch (error) {
+      // 사용자/AI 메시지가 번갈아 오도록 실패한 질문은 되돌리고 입력창에 다시 넣는다
+      messages.pop();
+      await this.saveConversation(problem.id, messages);
+      if (!request.level) {
+        this.panel?.webview.postMessage({ command: 'restoreInput', text: request.question });
+      }
+      vscode.window.showErrorMessage(`힌트 생성 실패: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      clearTimeout(this.renderTimer);
+      this.renderTimer = undefined;
+      this.cancellation = undefined;
+      cancellation.dispose();
+      this.postConversation();
+    }
+  }
+
+  /**
+   * 풀이 기록에 받은 힌트 남기기 ("한 단계 더"는 지금까지 받은 다음 단계로 기록)
+   */
+  private async recordHintUsage(problemId: string, level?: HintLevel | 'more'): Promise<void> {
+    let usage: HintUsage['level'];
+    if (level === 'more') {
+      const hints = this.getSolvingRecord(problemId)?.hints || [];
+      usage = getHintLadderState(hints, 0, 0).next ?? 'fullSolution';
+    } else {
+      usage = level ?? 'question';
+    }
+    await this.timerService.recordHint(problemId, usage);
+  }
+
+  /**
+   * 문제 번호가 같은 열린 파일의 코드 (템플릿만 있는 수준이면 제외)
+   */
+  private getUserCode(problemId: string): string | undefined {
+    const isProblemFile = (doc: vscode.TextDocument) =>
+      doc.uri.scheme === 'file' && this.templateService.findProblemIdFromPath(doc.uri.fsPath) === problemId;
+    const document = vscode.window.visibleTextEditors.map((editor) => editor.document).find(isProblemFile)
+      ?? vscode.workspace.textDocuments.find(isProblemFile);
+
+    const code = document?.getText().trim();
+    return code && code.split('\n').length > 5 ? code : undefined;
+  }
+
+  private renderStreaming(problemId: string, content: string): void {
+    this.streamingContent = content;
+    if (this.renderTimer) {
+      return;
+    }
+    this.renderTimer = setTimeout(() => {
+      this.renderTimer = undefined;
+      if (this.problem?.id === problemId) {
+        this.panel?.webview.postMessage({ command: 'streaming', html: markdownToHtml(this.streamingContent) });
+      }
+    }, RENDER_INTERVAL_MS);
+  }
+
+  private postConversation(): void {
+    if (!this.panel || !this.problem) {
+      return;
+    }
+    const messages = this.getConversation(this.problem.id);
+    this.panel.webview.postMessage({
+      command: 'conversation',
+      problemId: this.problem.id,
+      title: this.problem.title,
+      busy: !!this.cancellation,
+      locked: this.getLockedLevels(this.problem.id),
+      streamingHtml: this.cancellation ? markdownToHtml(this.streamingContent) : undefined,
+      messages: messages.map((message) => ({
+        role: message.role,
+        // 사용자 메시지는 웹뷰에서 텍스트로 넣고, AI 답변만 마크다운으로 변환
+        text: message.role === 'user' ? message.content : undefined,
+        html: message.role === 'assistant' ? markdownToHtml(message.content) : undefined
+      }))
+    });
+  }
+
+  /**
+   * 사다리 모드에서 지금 바로 받을 수 없는 힌트 단계
+   */
+  private getLockedLevels(problemId: string): HintLevel[] {
+    const state = this.getLadderState(problemId);
+    if (!state) {
+      return [];
+    }
+    if (!this.isSolving(problemId)) {
+      return [...HINT_LADDER];
+    }
+    return HINT_LADDER.filter((level) =>
+      !state.unlocked.includes(level) && (level !== state.next || state.waitMs > 0)
+    );
+  }
+
+  private getHtmlContent(): string {
+    const nonce = crypto.randomBytes(16).toString('base64');
+
+    // AI 답변이 그대로 들어가므로 nonce가 있는 스크립트만 실행되게 한다
+    return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <style>
+    ${webviewStyles()}
+    body { padding: 16px 24px 0; display: flex; flex-direction: column; height: 100vh; }
+    .actions { display: flex; flex-wrap: wrap; gap: 6px; margin-bottom: 12px; }
+    .actions button, .composer button {
+      padding: 4px 10px;
+      font-size: 12px;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+    }
+    .actions button.primary, .composer button.primary {
+      background: var(--vscode-button-background);
+      color: var(--vscode-button-foreground);
+    }
+    .actions button.locked::before { content: '🔒 '; }
+    .actions .spacer { flex: 1; }
+    button:disabled { opacity: 0.5; cursor: default; }
+    #messages { flex: 1; overflow-y: auto; padding-bottom: 12px; }
+    .message { margin-bottom: 14px; }
+    .message.user {
+      margin-left: 20%;
+      padding: 8px 12px;
+      border-radius: 8px;
+      background: var(--vscode-input-background);
+      white-space: pre-wrap;
+      font-size: 13px;
+    }
+    .message.assistant { padding: 0 2px; }
+    .message.pending { color: var(--vscode-descriptionForeground); font-size: 12px; }
+    .empty { color: var(--vscode-descriptionForeground); font-size: 13px; padding: 24px 0; text-align: center; }
+    .composer {
+      display: flex;
+      gap: 6px;
+      padding: 10px 0 16px;
+      border-top: 1px solid var(--vscode-panel-border);
+    }
+    .composer textarea {
+      flex: 1;
+      min-height: 40px;
+      max-height: 160px;
+      resize: vertical;
+      padding: 6px 8px;
+      font-family: var(--vscode-font-family);
+      font-size: 13px;
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border: 1px solid var(--vscode-input-border);
+      border-radius: 4px;
+    }
+  </style>
+</head>
+<body>
+  <h1 id="title">힌트</h1>
+  <div class="actions">
+    <button class="primary" data-level="more">지난 힌트보다 한 단계 더</button>
+    <button data-level="algorithm">알고리즘 분류</button>
+    <button data-level="stepByStep">단계별 힌트</button>
+    <button data-level="fullSolution">전체 풀이</button>
+    <span class="spacer"></span>
+    <button id="clearBtn">대화 지우기</button>
+  </div>
+  <div id="messages"></div>
+  <div class="composer">
+    <textarea id="input" placeholder="추가 질문 (Enter: 보내기, Shift+Enter: 줄바꿈) · 현재 코드가 함께 전달됩니다"></textarea>
+    <button class="primary" id="sendBtn">보내기</button>
+    <button id="cancelBtn" style="display: none;">중단</button>
+  </div>
+
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const messagesEl = document.getElementById('messages');
+    const input = document.getElementById('input');
+    let busy = false;
+
+    function setBusy(value) {
+      busy = value;
+      document.getElementById('sendBtn').style.display = busy ? 'none' : '';
+      document.getElementById('cancelBtn').style.display = busy ? '' : 'none';
+      document.querySelectorAll('[data-level], #clearBtn').forEach(b => { b.disabled = busy; });
+    }
+
+    function scrollToBottom() { messagesEl.scrollTop = messagesEl.scrollHeight; }
+
+    function render(msg) {
+      document.getElementById('title').textContent = '#' + msg.problemId + ' ' + msg.title;
+      messagesEl.innerHTML = '';
+      if (msg.messages.length === 0 && !msg.busy) {
+        messagesEl.innerHTML = '<div class="empty">힌트 레벨을 고르거나 질문을 입력하세요.</div>';
+      }
+      for (const m of msg.messages) {
+        const el = document.createElement('div');
+        el.className = 'message ' + m.role;
+        if (m.role === 'user') {
+          el.textContent = m.text;
+        } else {
+          el.classList.add('markdown-body');
+          el.innerHTML = m.html;
+        }
+        messagesEl.appendChild(el);
+      }
+      if (msg.busy) {
+        const el = document.createElement('div');
+        el.id = 'streaming';
+        el.className = 'message assistant markdown-body';
+        el.innerHTML = msg.streamingHtml || '<div class="message pending">생각 중...</div>';
+        messagesEl.appendChild(el);
+      }
+      document.querySelectorAll('[data-level]').forEach(b => {
+        const locked = msg.locked.includes(b.dataset.level);
+        b.classList.toggle('locked', locked);
+        b.title = locked ? '힌트 사다리: 아직 열리지 않은 단계' : '';
+      });
+      setBusy(msg.busy);
+      scrollToBottom();
+    }
+
+    function send() {
+      const text = input.value.trim();
+      if (!text || busy) return;
+      vscode.postMessage({ command: 'ask', text });
+      input.value = '';
+    }
+
+    document.querySelectorAll('[data-level]').forEach(b => {
+      b.addEventListener('click', () => vscode.postMessage({ command: 'askLevel', level: b.dataset.level }));
+    });
+    document.getElementById('clearBtn').addEventListener('click', () => vscode.postMessage({ command: 'clear' }));
+    document.getElementById('sendBtn').addEventListener('click', send);
+    document.getElementById('cancelBtn').addEventListener('click', () => vscode.postMessage({ command: 'cancel' }));
+    input.addEventListener('keydown', e => {
+      if (e.key === 'Enter' && !e.shiftKey && !e.isComposing) {
+        e.preventDefault();
+        send();
+      }
+    });
+
+    window.addEventListener('message', e => {
+      const msg = e.data;
+      switch (msg.command) {
+        case 'conversation':
+          render(msg);
+          break;
+        case 'streaming': {
+          const el = document.getElementById('streaming');
+          if (el) {
+            el.innerHTML = msg.html;
+            scrollToBottom();
+          }
+          break;
+        }
+        case 'restoreInput':
+          if (!input.value) input.value = msg.text;
+          break;
+      }
+    });
+
+    vscode.postMessage({ command: 'ready' });
+  </script>
+</body>
+</html>`;
+  }
+}
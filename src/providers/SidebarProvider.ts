@@ -1,30 +1,52 @@
 import * as vscode from 'vscode';
 import { TimerService } from '../services/TimerService';
-import { SolvedAcService } from '../services/SolvedAcService';
+import { SolvedAcService, SEARCH_PAGE_SIZE, SearchSort, SortDirection } from '../services/SolvedAcService';
 import { AIService } from '../services/AIService';
+import { AuthService } from '../services/AuthService';
 import { getTierColor, getTierName, TIER_NAMES } from '../types';
+import { buildSolvedQuery, SolvedQueryFilters } from '../utils/solvedQuery';
 import { escapeHtml } from '../utils/parser';
 
+const SAVED_SEARCHES_KEY = 'bojmate.savedSearches';
+
+interface SearchOptions {
+  filters?: SolvedQueryFilters;
+  rawQuery?: string; // 직접 수정한 solved.ac 쿼리 (있으면 filters 대신 사용)
+  sort?: SearchSort;
+  direction?: SortDirection;
+  page?: number;
+}
+
+// 이름을 붙여 저장한 검색 조건
+interface SavedSearch extends Omit<SearchOptions, 'page'> {
+  name: string;
+}
+
 export class SidebarProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'bojmate.sidebarView';
 
   private _view?: vscode.WebviewView;
+  private context: vscode.ExtensionContext;
   private timerService: TimerService;
   private solvedAcService: SolvedAcService;
   private aiService: AIService;
+  private authService: AuthService;
   private extensionUri: vscode.Uri;
   private tags: Array<{ key: string; name: string; problemCount: number }> = [];
 
   constructor(
-    extensionUri: vscode.Uri,
+    context: vscode.ExtensionContext,
     timerService: TimerService,
     solvedAcService: SolvedAcService,
-    aiService: AIService
+    aiService: AIService,
+    authService: AuthService
   ) {
-    this.extensionUri = extensionUri;
+    this.context = context;
+    this.extensionUri = context.extensionUri;
     this.timerService = timerService;
     this.solvedAcService = solvedAcService;
     this.aiService = aiService;
+    this.authService = authService;
   }
 
   public async resolveWebviewView(
@@ -65,15 +87,42 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
         case 'showStats':
           vscode.commands.executeCommand('bojmate.showStats');
           break;
+        case 'randomProblem':
+          vscode.commands.executeCommand('bojmate.randomProblem');
+          break;
         case 'openAISettings':
           vscode.commands.executeCommand('bojmate.configureAI');
           break;
+        case 'login':
+          await this.authService.openLoginPage();
+          break;
+        case 'saveCookie':
+          vscode.commands.executeCommand('bojmate.saveCookie');
+          break;
+        case 'logout':
+          vscode.commands.executeCommand('bojmate.logout');
+          break;
+        case 'switchAccount':
+          vscode.commands.executeCommand('bojmate.switchAccount');
+          break;
         case 'stopTimer':
           await this.timerService.stopTimer(message.status);
           this.refresh();
           break;
         case 'search':
-          await this.handleSearch(message.query, message.tierMin, message.tierMax, message.tag);
+          await this.handleSearch(message.options || {});
+          break;
+        case 'previewQuery':
+          webviewView.webview.postMessage({
+            command: 'queryPreview',
+            query: buildSolvedQuery(message.filters || {}, this.authService.getUsername())
+          });
+          break;
+        case 'saveSearch':
+          await this.saveSearch(message.search || {});
+          break;
+        case 'deleteSavedSearch':
+          await this.deleteSavedSearch(message.name);
           break;
         case 'refresh':
           this.refresh();
@@ -82,6 +131,7 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
     });
 
     this.refresh();
+    this.postSavedSearches();
   }
 
   public async refresh() {
@@ -89,10 +139,19 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
       const currentRecord = this.timerService.getCurrentRecord();
       const aiEnabled = this.aiService.isEnabled();
       const settings = await this.aiService.getSettings();
+      const hasCookie = !!(await this.authService.getCookies());
+      const session = await this.authService.getSessionInfo();
+      const activeAccount = this.authService.getActiveAccount();
 
       this._view.webview.postMessage({
         command: 'update',
         currentProblem: currentRecord,
+        account: {
+          name: activeAccount.name,
+          hasCookie,
+          valid: hasCookie && session?.valid !== false,
+          username: session?.username || activeAccount.username
+        },
         aiStatus: {
           enabled: aiEnabled,
           provider: settings.provider,
@@ -102,65 +161,121 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
     }
   }
 
-  private async handleSearch(query?: string, tierMin?: number, tierMax?: number, tag?: string): Promise<void> {
+  private async handleSearch(options: SearchOptions): Promise<void> {
+    const { filters = {}, rawQuery, sort, direction, page = 1 } = options;
     if (!this._view) return;
+    const handle = this.authService.getUsername();
 
     // 로딩 표시
     this._view.webview.postMessage({ command: 'searchLoading' });
 
     try {
-      // 쿼리 조합: 텍스트 + 필터
-      const queryParts: string[] = [];
-
-      if (query && query.trim()) {
-        // 숫자만이면 문제번호 검색, 아니면 텍스트 검색
-        if (/^\d+$/.test(query.trim())) {
-          queryParts.push(`id:${query.trim()}`);
-        } else {
-          queryParts.push(query.trim());
-        }
-      }
-
-      if (tierMin !== undefined && tierMax !== undefined) {
-        queryParts.push(`tier:${tierMin}..${tierMax}`);
-      } else if (tierMin !== undefined) {
-        queryParts.push(`tier:${tierMin}..30`);
-      } else if (tierMax !== undefined) {
-        queryParts.push(`tier:0..${tierMax}`);
-      }
-
-      if (tag) {
-        queryParts.push(`tag:${tag}`);
-      }
-
-      if (queryParts.length === 0) {
-        queryParts.push('solvable:true');
-      } else {
-        queryParts.push('solvable:true');
+      // 아이디가 없으면 풀이 상태 필터는 무시
+      if (!rawQuery && !handle && filters.solvedFilter && filters.solvedFilter !== 'all') {
+        vscode.window.showWarningMessage('풀이 상태로 거르려면 백준 아이디를 설정해주세요. (쿠키를 저장하면 자동으로 설정됩니다)');
       }
+      const query = rawQuery?.trim() || buildSolvedQuery(filters, handle);
 
-      const result = await this.solvedAcService.searchProblems(queryParts.join(' '));
+      const result = await this.solvedAcService.searchProblems(query, page, sort, direction);
+      const items = result.items;
+      const statuses = await this.getProblemStatuses(handle, items.map((p) => p.problemId.toString()));
 
       this._view.webview.postMessage({
         command: 'searchResults',
-        problems: result.items.slice(0, 30).map((p) => ({
+        problems: items.map((p) => ({
           id: p.problemId.toString(),
           title: p.titleKo,
           tier: p.level,
           tierName: getTierName(p.level),
-          tierColor: getTierColor(p.level)
+          tierColor: getTierColor(p.level),
+          status: statuses.get(p.problemId.toString())
         })),
-        total: result.count
+        total: result.count,
+        page,
+        pageSize: SEARCH_PAGE_SIZE
       });
     } catch {
       this._view.webview.postMessage({
         command: 'searchResults',
         problems: [],
-        total: 0
+        total: 0,
+        page: 1,
+        pageSize: SEARCH_PAGE_SIZE
       });
     }
   }
 
+  private getSavedSearches(): SavedSearch[] {
+    return this.context.globalState.get<SavedSearch[]>(SAVED_SEARCHES_KEY, []);
+  }
+
+  private postSavedSearches(): void {
+    this._view?.webview.postMessage({ command: 'savedSearches', searches: this.getSavedSearches() });
+  }
+
+  /**
+   * 현재 검색 조건을 이름을 붙여 저장 (같은 이름이면 덮어씀)
+   */
+  private async saveSearch(search: Omit<SavedSearch, 'name'>): Promise<void> {
+    const name = await vscode.window.showInputBox({
+      title: '검색 저장',
+      prompt: '저장할 검색 이름',
+      placeHolder: '예: Gold DP 미해결',
+      validateInput: (value) => value.trim() ? undefined : '이름을 입력해주세요.'
+    });
+    if (!name) {
+      return;
+    }
+
+    const saved = this.getSavedSearches().filter((s) => s.name !== name.trim());
+    saved.push({ ...search, name: name.trim() });
+    await this.context.globalState.update(SAVED_SEARCHES_KEY, saved);
+    this.postSavedSearches();
+  }
+
+  private async deleteSavedSearch(name: string): Promise<void> {
+    const confirm = await vscode.window.showWarningMessage(
+      `저장된 검색 "${name}"을(를) 삭제하시겠습니까?`,
+      { modal: true },
+      '삭제'
+    );
+    if (confirm !== '삭제') {
+      return;
+    }
+    await this.context.globalState.update(
+      SAVED_SEARCHES_KEY,
+      this.getSavedSearches().filter((s) => s.name !== name)
+    );
+    this.postSavedSearches();
+  }
+
+  /**
+   * 검색 결과의 풀이 상태 (✓ 해결 / ✗ 시도했지만 못 품)
+   * 로컬 풀이 기록을 먼저 보고, 아이디가 있으면 solved.ac 결과로 보완
+   */
+  private async getProblemStatuses(handle: string, problemIds: string[]): Promise<Map<string, 'solved' | 'tried'>> {
+    const statuses = new Map<string, 'solved' | 'tried'>();
+    const ids = new Set(problemIds);
+
+    for (const record of await this.timerService.getAllRecords()) {
+      if (!ids.has(record.problemId)) {
+        continue;
+      }
+      if (record.status === 'solved') {
+        statuses.set(record.problemId, 'solved');
+      } else if (record.status === 'failed' && !statuses.has(record.problemId)) {
+        statuses.set(record.problemId, 'tried');
+      }
+    }
+
+    if (handle) {
+      const { solved, tried } = await this.solvedAcService.getUserProblemStatus(handle, problemIds);
+      solved.forEach((id) => statuses.set(id, 'solved'));
+      tried.filter((id) => !statuses.has(id)).forEach((id) => statuses.set(id, 'tried'));
+    }
+    return statuses;
+  }
+
   private getHtmlContent(): string {
     // 티어를 그룹별로 묶기
     const tierGroups = [
@@ -200,6 +315,19 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
       padding: 12px;
     }
     .section { margin-bottom: 16px; }
+    .account-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 6px 8px;
+      margin-bottom: 12px;
+      border-radius: 4px;
+      background: var(--vscode-editor-background);
+      cursor: pointer;
+      font-size: 12px;
+    }
+    .account-header:hover { background: var(--vscode-list-hoverBackground); }
+    .account-header .switch { font-size: 11px; color: var(--vscode-descriptionForeground); }
     .section-title {
       font-weight: bold;
       margin-bottom: 8px;
@@ -251,6 +379,65 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
       font-size: 12px;
     }
     .filter-row span { font-size: 12px; line-height: 28px; }
+    .filter-row input {
+      flex: 1;
+      min-width: 0;
+      padding: 5px;
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border: 1px solid var(--vscode-input-border);
+      border-radius: 4px;
+      font-size: 12px;
+    }
+    .filter-row label { font-size: 12px; line-height: 28px; white-space: nowrap; }
+    .filter-row .row-label { width: 64px; flex-shrink: 0; color: var(--vscode-descriptionForeground); }
+    .filter-row button {
+      padding: 4px 8px;
+      font-size: 12px;
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+      border: none; border-radius: 4px; cursor: pointer;
+    }
+    details.advanced { margin-bottom: 6px; font-size: 12px; }
+    details.advanced summary {
+      cursor: pointer;
+      color: var(--vscode-descriptionForeground);
+      margin-bottom: 6px;
+    }
+    .chips { display: flex; flex-wrap: wrap; gap: 4px; margin-bottom: 6px; }
+    .chip {
+      display: inline-flex; align-items: center; gap: 4px;
+      padding: 2px 6px;
+      font-size: 11px;
+      border-radius: 10px;
+      background: var(--vscode-badge-background);
+      color: var(--vscode-badge-foreground);
+    }
+    .chip.exclude { background: #dc3545; color: white; }
+    .chip .remove { cursor: pointer; opacity: 0.8; }
+    .chip .remove:hover { opacity: 1; }
+    .chip.saved { cursor: pointer; }
+    .raw-query-label {
+      display: flex;
+      justify-content: space-between;
+      font-size: 11px;
+      color: var(--vscode-descriptionForeground);
+      margin-bottom: 2px;
+    }
+    .raw-query-label a { cursor: pointer; color: var(--vscode-textLink-foreground); }
+    .raw-query {
+      width: 100%;
+      min-height: 44px;
+      padding: 5px;
+      margin-bottom: 6px;
+      resize: vertical;
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border: 1px solid var(--vscode-input-border);
+      border-radius: 4px;
+      font-family: var(--vscode-editor-font-family), monospace;
+      font-size: 11px;
+    }
     .btn-row { display: flex; gap: 6px; }
     .btn {
       flex: 1;
@@ -278,6 +465,22 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
       margin: 8px 0 4px;
     }
     .problem-list { max-height: 300px; overflow-y: auto; }
+    .pagination {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      margin-top: 6px;
+      font-size: 11px;
+      color: var(--vscode-descriptionForeground);
+    }
+    .pagination button {
+      padding: 2px 8px;
+      font-size: 11px;
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+      border: none; border-radius: 3px; cursor: pointer;
+    }
+    .pagination button:disabled { opacity: 0.4; cursor: default; }
     .problem-item {
       display: flex;
       align-items: center;
@@ -304,6 +507,15 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
       text-overflow: ellipsis;
       white-space: nowrap;
     }
+    .problem-item .pstatus {
+      width: 12px;
+      font-size: 12px;
+      font-weight: bold;
+      flex-shrink: 0;
+      text-align: center;
+    }
+    .pstatus.solved { color: #28a745; }
+    .pstatus.tried { color: #dc3545; }
     .problem-item .ptier {
       font-size: 10px;
       color: var(--vscode-descriptionForeground);
@@ -365,6 +577,8 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
     }
     .enabled { background: #28a745; }
     .disabled { background: #6c757d; }
+    .expired { background: #dc3545; }
+    .ai-status .actions { display: flex; gap: 4px; }
     .ai-status button {
       padding: 2px 8px; font-size: 11px;
       background: var(--vscode-button-secondaryBackground);
@@ -395,6 +609,12 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
   </style>
 </head>
 <body>
+  <!-- 현재 계정 -->
+  <div class="account-header" onclick="cmd('switchAccount')" title="계정 전환">
+    <span id="accountName">👤 기본</span>
+    <span class="switch">전환 ▾</span>
+  </div>
+
   <!-- 문제 검색 -->
   <div class="section">
     <div class="section-title">문제 검색</div>
@@ -415,11 +635,86 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
       </select>
     </div>
     <div class="filter-row">
-      <select id="tagFilter">
+      <select id="tagSelect">
         <option value="">알고리즘 분류</option>
         ${tagOptions}
       </select>
+      <select id="tagOp" style="flex: 0 0 auto;">
+        <option value="include">포함</option>
+        <option value="exclude">제외</option>
+      </select>
+      <button onclick="addTag()">추가</button>
+    </div>
+    <div class="filter-row">
+      <select id="tagMode">
+        <option value="and">태그를 모두 포함 (AND)</option>
+        <option value="or">태그 중 하나 이상 (OR)</option>
+      </select>
+    </div>
+    <div id="tagChips" class="chips"></div>
+    <details class="advanced">
+      <summary>상세 조건</summary>
+      <div class="filter-row">
+        <label class="row-label">맞은 사람</label>
+        <input type="number" id="solvedMin" min="0" placeholder="최소" />
+        <span>~</span>
+        <input type="number" id="solvedMax" min="0" placeholder="최대" />
+      </div>
+      <div class="filter-row">
+        <label class="row-label">평균 시도</label>
+        <input type="number" id="averageTryMin" min="1" step="0.1" placeholder="최소" />
+        <span>~</span>
+        <input type="number" id="averageTryMax" min="1" step="0.1" placeholder="최대" />
+      </div>
+      <div class="filter-row">
+        <label class="row-label">출처</label>
+        <input type="text" id="source" placeholder="예: ucpc, olympiad" />
+      </div>
+      <div class="filter-row">
+        <label class="row-label">CLASS</label>
+        <select id="classLevel">
+          <option value="">전체</option>
+          ${[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(c => `<option value="${c}">CLASS ${c}</option>`).join('')}
+        </select>
+        <label><input type="checkbox" id="classEssentials" style="flex: none;" /> 필수만</label>
+      </div>
+    </details>
+    <div class="filter-row">
+      <select id="solvedFilter">
+        <option value="all">모든 문제</option>
+        <option value="unsolved">안 푼 문제만</option>
+        <option value="tried">시도했지만 못 푼 문제만</option>
+      </select>
+      <select id="langFilter">
+        <option value="">모든 언어</option>
+        <option value="ko">한국어</option>
+        <option value="en">영어</option>
+      </select>
     </div>
+    <div class="filter-row">
+      <select id="sortBy">
+        <option value="">정렬: 기본</option>
+        <option value="id">정렬: 번호</option>
+        <option value="level">정렬: 난이도</option>
+        <option value="solved">정렬: 푼 사람 수</option>
+        <option value="average_try">정렬: 평균 시도</option>
+      </select>
+      <select id="sortDirection">
+        <option value="asc">오름차순</option>
+        <option value="desc">내림차순</option>
+      </select>
+    </div>
+    <div class="raw-query-label">
+      <span>solved.ac 쿼리 <span id="rawQueryState"></span></span>
+      <a onclick="resetRawQuery()" title="검색 조건으로 다시 만들기">초기화</a>
+    </div>
+    <textarea id="rawQuery" class="raw-query" spellcheck="false"></textarea>
+    <div class="btn-row" style="margin-bottom: 8px;">
+      <button class="btn btn-primary" onclick="doSearch()">검색</button>
+      <button class="btn btn-secondary" onclick="saveSearch()">검색 저장</button>
+      <button class="btn btn-secondary" onclick="cmd('randomProblem')" title="조건에 맞는 문제 무작위로 뽑기">🎲 랜덤</button>
+    </div>
+    <div id="savedSearches" class="chips"></div>
     <div id="searchResults"></div>
   </div>
 
@@ -433,6 +728,17 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
 
   <hr>
 
+  <!-- 계정 -->
+  <div class="section">
+    <div class="section-title">계정</div>
+    <div id="accountStatus" class="ai-status">
+      <span><span class="status-dot disabled"></span>로그인 필요</span>
+      <button onclick="cmd('login')">로그인</button>
+    </div>
+  </div>
+
+  <hr>
+
   <!-- AI 상태 -->
   <div class="section">
     <div class="section-title">AI</div>
@@ -469,41 +775,190 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
     function openAISettings() { cmd('openAISettings'); }
 
     // === 검색 ===
-    function doSearch() {
-      const query = document.getElementById('searchQuery').value.trim();
-      const tierMin = document.getElementById('tierMin').value;
-      const tierMax = document.getElementById('tierMax').value;
-      const tag = document.getElementById('tagFilter').value;
-
-      if (!query && !tierMin && !tierMax && !tag) return;
-
-      vscode.postMessage({
-        command: 'search',
-        query: query || undefined,
-        tierMin: tierMin ? parseInt(tierMin) : undefined,
-        tierMax: tierMax ? parseInt(tierMax) : undefined,
-        tag: tag || undefined
-      });
+    // 검색 조건은 웹뷰 상태에 저장해 사이드바를 다시 열어도 유지
+    const FILTER_IDS = ['searchQuery', 'tierMin', 'tierMax', 'tagMode', 'solvedMin', 'solvedMax',
+      'averageTryMin', 'averageTryMax', 'source', 'classLevel', 'solvedFilter', 'langFilter'];
+    let tagTerms = []; // { key, exclude }
+    let rawEdited = false; // 쿼리를 직접 수정했으면 검색 조건으로 덮어쓰지 않음
+    let previewTimer = null;
+
+    function value(id) { return document.getElementById(id).value.trim(); }
+    function num(id) { const v = value(id); return v === '' || isNaN(Number(v)) ? undefined : Number(v); }
+
+    function tagName(key) {
+      const option = Array.from(document.getElementById('tagSelect').options).find(o => o.value === key);
+      return option ? option.textContent.replace(/\\s*\\(\\d+\\)$/, '') : key;
+    }
+
+    function collectFilters() {
+      return {
+        text: value('searchQuery') || undefined,
+        tierMin: num('tierMin'),
+        tierMax: num('tierMax'),
+        tags: tagTerms.filter(t => !t.exclude).map(t => t.key),
+        excludedTags: tagTerms.filter(t => t.exclude).map(t => t.key),
+        tagMode: value('tagMode'),
+        solvedMin: num('solvedMin'),
+        solvedMax: num('solvedMax'),
+        averageTryMin: num('averageTryMin'),
+        averageTryMax: num('averageTryMax'),
+        source: value('source') || undefined,
+        classLevel: num('classLevel'),
+        classEssentials: document.getElementById('classEssentials').checked,
+        solvedFilter: value('solvedFilter'),
+        lang: value('langFilter') || undefined
+      };
     }
 
+    function applyFilters(f) {
+      const values = {
+        searchQuery: f.text, tierMin: f.tierMin, tierMax: f.tierMax, tagMode: f.tagMode || 'and',
+        solvedMin: f.solvedMin, solvedMax: f.solvedMax,
+        averageTryMin: f.averageTryMin, averageTryMax: f.averageTryMax,
+        source: f.source, classLevel: f.classLevel, solvedFilter: f.solvedFilter || 'all', langFilter: f.lang
+      };
+      FILTER_IDS.forEach(id => { document.getElementById(id).value = values[id] !== undefined ? values[id] : ''; });
+      document.getElementById('classEssentials').checked = !!f.classEssentials;
+      tagTerms = (f.tags || []).map(key => ({ key, exclude: false }))
+        .concat((f.excludedTags || []).map(key => ({ key, exclude: true })));
+      renderTags();
+    }
+
+    function hasFilters(f) {
+      return !!(f.text || f.tierMin !== undefined || f.tierMax !== undefined || f.tags.length || f.excludedTags.length ||
+        f.solvedMin !== undefined || f.solvedMax !== undefined || f.averageTryMin !== undefined ||
+        f.averageTryMax !== undefined || f.source || f.classLevel !== undefined || f.solvedFilter !== 'all' || f.lang);
+    }
+
+    function addTag() {
+      const key = value('tagSelect');
+      if (!key) return;
+      const exclude = value('tagOp') === 'exclude';
+      tagTerms = tagTerms.filter(t => t.key !== key).concat([{ key, exclude }]);
+      document.getElementById('tagSelect').value = '';
+      renderTags();
+      previewQuery();
+    }
+
+    function removeTag(index) {
+      tagTerms.splice(index, 1);
+      renderTags();
+      previewQuery();
+    }
+
+    function renderTags() {
+      document.getElementById('tagChips').innerHTML = tagTerms.map((t, i) =>
+        '<span class="chip' + (t.exclude ? ' exclude' : '') + '">' +
+          (t.exclude ? 'NOT ' : '') + esc(tagName(t.key)) +
+          '<span class="remove" onclick="removeTag(' + i + ')" title="제거">✕</span></span>'
+      ).join('');
+    }
+
+    // 검색 조건이 바뀌면 확장에서 만든 쿼리를 미리보기로 표시
+    function previewQuery() {
+      if (previewTimer) clearTimeout(previewTimer);
+      previewTimer = setTimeout(() => {
+        vscode.postMessage({ command: 'previewQuery', filters: collectFilters() });
+      }, 200);
+    }
+
+    function setRawEdited(edited) {
+      rawEdited = edited;
+      document.getElementById('rawQueryState').textContent = edited ? '(직접 수정됨)' : '';
+    }
+
+    function resetRawQuery() {
+      setRawEdited(false);
+      previewQuery();
+    }
+
+    function currentSearch() {
+      return {
+        filters: collectFilters(),
+        rawQuery: rawEdited ? value('rawQuery') || undefined : undefined,
+        sort: value('sortBy') || undefined,
+        direction: value('sortDirection')
+      };
+    }
+
+    function doSearch(page) {
+      const search = currentSearch();
+      if (!search.rawQuery && !hasFilters(search.filters)) return;
+
+      vscode.setState({ search, page: page || 1 });
+      vscode.postMessage({ command: 'search', options: Object.assign({}, search, { page: page || 1 }) });
+    }
+
+    function applySearch(search) {
+      applyFilters(search.filters || {});
+      document.getElementById('sortBy').value = search.sort || '';
+      document.getElementById('sortDirection').value = search.direction || 'asc';
+      if (search.rawQuery) {
+        document.getElementById('rawQuery').value = search.rawQuery;
+        setRawEdited(true);
+      } else {
+        setRawEdited(false);
+        previewQuery();
+      }
+    }
+
+    function restoreSearch() {
+      const state = vscode.getState();
+      if (!state || !state.search) return;
+      applySearch(state.search);
+      doSearch(state.page);
+    }
+
+    // === 저장된 검색 ===
+    let savedSearches = [];
+
+    function saveSearch() {
+      const search = currentSearch();
+      if (!search.rawQuery && !hasFilters(search.filters)) return;
+      vscode.postMessage({ command: 'saveSearch', search });
+    }
+
+    function runSavedSearch(index) {
+      const search = savedSearches[index];
+      if (!search) return;
+      applySearch(search);
+      doSearch(1);
+    }
+
+    function deleteSavedSearch(index, event) {
+      event.stopPropagation();
+      if (savedSearches[index]) vscode.postMessage({ command: 'deleteSavedSearch', name: savedSearches[index].name });
+    }
+
+    function renderSavedSearches() {
+      document.getElementById('savedSearches').innerHTML = savedSearches.map((s, i) =>
+        '<span class="chip saved" onclick="runSavedSearch(' + i + ')" title="' + esc(s.rawQuery || '') + '">★ ' + esc(s.name) +
+          '<span class="remove" onclick="deleteSavedSearch(' + i + ', event)" title="삭제">✕</span></span>'
+      ).join('');
+    }
 
     function selectProblem(id, action) {
       vscode.postMessage({ command: action, problemId: id });
     }
 
     // 검색 결과 렌더링
-    function renderResults(problems, total) {
+    function renderResults(problems, total, page, pageSize) {
       const el = document.getElementById('searchResults');
       if (!problems || problems.length === 0) {
         el.innerHTML = '<div class="empty-msg">결과 없음</div>';
         return;
       }
 
-      let html = '<div class="result-header">' + total + '개 중 ' + problems.length + '개 표시</div>';
+      const first = (page - 1) * pageSize + 1;
+      const last = first + problems.length - 1;
+      const lastPage = Math.max(1, Math.ceil(total / pageSize));
+      let html = '<div class="result-header">' + total + '개 중 ' + first + '–' + last + '</div>';
       html += '<div class="problem-list">';
       for (const p of problems) {
         html += '<div class="problem-item">' +
           '<span class="tier-dot" style="background:' + safeColor(p.tierColor) + '"></span>' +
+          '<span class="pstatus ' + (p.status || '') + '" title="' + (p.status === 'solved' ? '해결' : p.status === 'tried' ? '시도했지만 못 품' : '') + '">' +
+            (p.status === 'solved' ? '✓' : p.status === 'tried' ? '✗' : '') + '</span>' +
           '<span class="pid">' + esc(p.id) + '</span>' +
           '<span class="pname">' + esc(p.title) + '</span>' +
           '<span class="ptier">' + esc(p.tierName) + '</span>' +
@@ -514,6 +969,13 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
           '</div>';
       }
       html += '</div>';
+      if (lastPage > 1) {
+        html += '<div class="pagination">' +
+          '<button onclick="doSearch(' + (page - 1) + ')"' + (page <= 1 ? ' disabled' : '') + '>◀ 이전</button>' +
+          '<span>' + page + ' / ' + lastPage + '</span>' +
+          '<button onclick="doSearch(' + (page + 1) + ')"' + (page >= lastPage ? ' disabled' : '') + '>다음 ▶</button>' +
+          '</div>';
+      }
       el.innerHTML = html;
     }
 
@@ -545,6 +1007,26 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
         '</div>';
     }
 
+    function updateAccount(account) {
+      document.getElementById('accountName').textContent =
+        '👤 ' + account.name + (account.username ? ' (' + account.username + ')' : '');
+      const el = document.getElementById('accountStatus');
+      if (!account.hasCookie) {
+        el.innerHTML = '<span><span class="status-dot disabled"></span>로그인 필요</span>' +
+          '<span class="actions"><button onclick="cmd(\\'login\\')">로그인</button>' +
+          '<button onclick="cmd(\\'saveCookie\\')">쿠키 저장</button></span>';
+      } else if (!account.valid) {
+        el.innerHTML = '<span><span class="status-dot expired"></span>세션 만료' +
+          (account.username ? ' (' + esc(account.username) + ')' : '') + '</span>' +
+          '<span class="actions"><button onclick="cmd(\\'saveCookie\\')">쿠키 다시 입력</button>' +
+          '<button onclick="cmd(\\'logout\\')">로그아웃</button></span>';
+      } else {
+        el.innerHTML = '<span><span class="status-dot enabled"></span>' +
+          esc(account.username || '로그인됨 (아이디 확인 전)') + '</span>' +
+          '<span class="actions"><button onclick="cmd(\\'logout\\')">로그아웃</button></span>';
+      }
+    }
+
     function updateAIStatus(ai) {
       const el = document.getElementById('aiStatus');
       if (ai.enabled) {
@@ -568,13 +1050,21 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
             timerInterval = setInterval(updateCurrentProblem, 1000);
           }
           updateCurrentProblem();
+          if (msg.account) updateAccount(msg.account);
           if (msg.aiStatus) updateAIStatus(msg.aiStatus);
           break;
         case 'searchLoading':
           document.getElementById('searchResults').innerHTML = '<div class="loading">검색 중...</div>';
           break;
         case 'searchResults':
-          renderResults(msg.problems, msg.total);
+          renderResults(msg.problems, msg.total, msg.page, msg.pageSize);
+          break;
+        case 'queryPreview':
+          if (!rawEdited) document.getElementById('rawQuery').value = msg.query;
+          break;
+        case 'savedSearches':
+          savedSearches = msg.searches || [];
+          renderSavedSearches();
           break;
       }
     });
@@ -583,8 +1073,14 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
     document.getElementById('searchQuery').addEventListener('keypress', e => {
       if (e.key === 'Enter') doSearch();
     });
+    FILTER_IDS.concat(['classEssentials']).forEach(id => {
+      document.getElementById(id).addEventListener('input', previewQuery);
+      document.getElementById(id).addEventListener('change', previewQuery);
+    });
+    document.getElementById('rawQuery').addEventListener('input', () => setRawEdited(true));
 
     vscode.postMessage({ command: 'refresh' });
+    restoreSearch();
   </script>
 </body>
 </html>`;
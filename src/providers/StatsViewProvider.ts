@@ -1,7 +1,10 @@
 import * as vscode from 'vscode';
 import { TimerService } from '../services/TimerService';
-import { getTierColor } from '../types';
+import { SolveStats, getTierColor } from '../types';
 import { escapeHtml } from '../utils/parser';
+import { formatHintUsage } from '../utils/hintLadder';
+
+const MAX_TAG_ROWS = 20;
 
 export class StatsViewProvider {
   private timerService: TimerService;
@@ -25,20 +28,7 @@ export class StatsViewProvider {
     panel.webview.html = this.getWebviewContent(stats);
   }
 
-  private getWebviewContent(stats: {
-    totalSolved: number;
-    totalTime: number;
-    averageTime: number;
-    byTier: Record<string, { count: number; totalTime: number }>;
-    recentRecords: Array<{
-      problemId: string;
-      title: string;
-      tier: number;
-      tierName: string;
-      startTime: number;
-      endTime?: number;
-    }>;
-  }): string {
+  private getWebviewContent(stats: SolveStats): string {
     const formatTime = (ms: number): string => {
       const minutes = Math.floor(ms / 60000);
       const hours = Math.floor(minutes / 60);
@@ -48,14 +38,29 @@ export class StatsViewProvider {
       return `${minutes}분`;
     };
 
+    // 가져온 기록은 풀이 시간이 없으므로 평균은 시간이 측정된 풀이로만 계산
     const tierStats = Object.entries(stats.byTier)
+      .sort(([, a], [, b]) => a.tier - b.tier)
       .map(
         ([tierName, data]) => `
         <tr>
-          <td>${tierName}</td>
+          <td><span class="tier-badge" style="background: ${getTierColor(data.tier)}">${escapeHtml(tierName)}</span></td>
           <td>${data.count}문제</td>
-          <td>${formatTime(data.totalTime)}</td>
-          <td>${formatTime(data.totalTime / data.count)}</td>
+          <td>${data.timedCount > 0 ? formatTime(data.totalTime) : '-'}</td>
+          <td>${data.timedCount > 0 ? formatTime(data.totalTime / data.timedCount) : '-'}</td>
+        </tr>
+      `
+      )
+      .join('');
+
+    const tagStats = Object.entries(stats.byTag)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, MAX_TAG_ROWS)
+      .map(
+        ([tag, count]) => `
+        <tr>
+          <td>${escapeHtml(tag)}</td>
+          <td>${count}문제</td>
         </tr>
       `
       )
@@ -66,7 +71,10 @@ export class StatsViewProvider {
         (r) => `
         <tr>
           <td>${escapeHtml(r.problemId)}</td>
-          <td>${escapeHtml(r.title)}</td>
+          <td>
+            ${escapeHtml(r.title)}
+            ${r.hints?.length ? `<span class="hint-badge" title="${escapeHtml(formatHintUsage(r.hints))}">힌트 사용</span>` : ''}
+          </td>
           <td><span class="tier-badge" style="background: ${getTierColor(r.tier)}">${escapeHtml(r.tierName)}</span></td>
           <td>${r.endTime ? formatTime(r.endTime - r.startTime) : '-'}</td>
           <td>${new Date(r.startTime).toLocaleDateString()}</td>
@@ -144,6 +152,15 @@ export class StatsViewProvider {
       color: white;
       font-size: 12px;
     }
+    .hint-badge {
+      display: inline-block;
+      margin-left: 6px;
+      padding: 1px 6px;
+      border-radius: 10px;
+      font-size: 11px;
+      background: var(--vscode-badge-background);
+      color: var(--vscode-badge-foreground);
+    }
     .empty-state {
       text-align: center;
       padding: 40px;
@@ -157,16 +174,20 @@ export class StatsViewProvider {
   <div class="summary">
     <div class="stat-card">
       <div class="value">${stats.totalSolved}</div>
-      <div class="label">해결한 문제</div>
+      <div class="label">해결한 문제${stats.importedCount > 0 ? ` (가져온 문제 ${stats.importedCount})` : ''}</div>
     </div>
     <div class="stat-card">
       <div class="value">${formatTime(stats.totalTime)}</div>
       <div class="label">총 풀이 시간</div>
     </div>
     <div class="stat-card">
-      <div class="value">${stats.totalSolved > 0 ? formatTime(stats.averageTime) : '-'}</div>
+      <div class="value">${stats.totalSolved > stats.importedCount ? formatTime(stats.averageTime) : '-'}</div>
       <div class="label">평균 풀이 시간</div>
     </div>
+    <div class="stat-card">
+      <div class="value">${stats.totalSolved - stats.importedCount - stats.assistedCount}</div>
+      <div class="label">힌트 없이 해결${stats.assistedCount > 0 ? ` (힌트 사용 ${stats.assistedCount})` : ''}</div>
+    </div>
   </div>
 
   <div class="section">
@@ -192,6 +213,27 @@ export class StatsViewProvider {
     }
   </div>
 
+  <div class="section">
+    <h2>🏷️ 알고리즘 분류별 통계</h2>
+    ${
+      tagStats
+        ? `
+      <table>
+        <thead>
+          <tr>
+            <th>분류</th>
+            <th>해결 수</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${tagStats}
+        </tbody>
+      </table>
+    `
+        : '<div class="empty-state">아직 데이터가 없습니다 (BOJ Mate: solved.ac 풀이 기록 가져오기)</div>'
+    }
+  </div>
+
   <div class="section">
     <h2>📋 최근 풀이 기록</h2>
     ${
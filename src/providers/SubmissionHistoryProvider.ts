@@ -0,0 +1,379 @@
+import * as vscode from 'vscode';
+import { BojService } from '../services/BojService';
+import { AuthService } from '../services/AuthService';
+import { TemplateService } from '../services/TemplateService';
+import { VirtualDocumentProvider } from './VirtualDocumentProvider';
+import { LANGUAGE_CONFIG, Submission, SupportedLanguage } from '../types';
+
+// 채점 현황 한 페이지의 행 수
+const STATUS_PAGE_SIZE = 20;
+
+// 웹뷰 → 확장 메시지
+type SubmissionHistoryMessage =
+  | { command: 'refresh' | 'loadMore' | 'openStatus' }
+  | { command: 'openSource'; submissionId: string };
+
+// BOJ 언어 표기 → 소스 파일 확장자 (C++, C#을 C보다 먼저 검사)
+const BOJ_LANGUAGE_PATTERNS: [RegExp, SupportedLanguage][] = [
+  [/^C\+\+/i, 'cpp'],
+  [/^C#/, 'cs'],
+  [/^C(\d+|\s|$)/, 'c'],
+  [/^PyPy/i, 'pypy'],
+  [/^Python/i, 'py'],
+  [/^Java\b/i, 'java'],
+  [/^Kotlin/i, 'kt'],
+  [/^(node\.js|JavaScript)/i, 'js'],
+  [/^Rust/i, 'rs'],
+  [/^Go\b/i, 'go'],
+  [/^Swift/i, 'swift'],
+  [/^Ruby/i, 'rb']
+];
+
+/**
+ * 문제별 제출 기록 패널
+ * 현재 계정의 백준 아이디로 제출을 채점 현황 페이지에서 가져오고,
+ * 본인의 맞은 제출은 소스를 읽기 전용 문서로 열 수 있다.
+ */
+export class SubmissionHistoryProvider {
+  private panel: vscode.WebviewPanel | undefined;
+  private problemId: string | undefined;
+  private username = '';
+  private submissions: Submission[] = [];
+  private bojService: BojService;
+  private authService: AuthService;
+  private templateService: TemplateService;
+  private virtualDocuments: VirtualDocumentProvider;
+
+  constructor(
+    bojService: BojService,
+    authService: AuthService,
+    templateService: TemplateService,
+    virtualDocuments: VirtualDocumentProvider
+  ) {
+    this.bojService = bojService;
+    this.authService = authService;
+    this.templateService = templateService;
+    this.virtualDocuments = virtualDocuments;
+  }
+
+  async show(problemId?: string): Promise<void> {
+    const username = this.authService.getUsername();
+    if (!username) {
+      const action = await vscode.window.showWarningMessage(
+        `제출 기록을 보려면 ${this.authService.getActiveAccount().name} 계정의 백준 아이디를 설정해주세요. (쿠키를 저장하면 자동으로 설정됩니다)`,
+        '쿠키 저장'
+      );
+      if (action === '쿠키 저장') {
+        await this.authService.promptForCookie();
+      }
+      return;
+    }
+
+    if (!problemId) {
+      const filePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+      problemId = (filePath && this.templateService.findProblemIdFromPath(filePath)) || undefined;
+    }
+    if (!problemId) {
+      problemId = await vscode.window.showInputBox({
+        prompt: '문제 번호를 입력하세요',
+        placeHolder: '예: 1000',
+        validateInput: (value) => this.bojService.isValidProblemId(value) ? null : '올바른 문제 번호를 입력하세요'
+      });
+      if (!problemId) {
+        return;
+      }
+    }
+
+    this.problemId = problemId;
+    this.username = username;
+    this.submissions = [];
+
+    if (this.panel) {
+      this.panel.title = `📜 ${problemId}번 제출 기록`;
+      this.panel.reveal();
+    } else {
+      this.panel = vscode.window.createWebviewPanel(
+        'bojmateSubmissions',
+        `📜 ${problemId}번 제출 기록`,
+        vscode.ViewColumn.Beside,
+        {
+          enableScripts: true,
+          retainContextWhenHidden: true
+        }
+      );
+
+      this.panel.webview.html = this.getHtmlContent();
+      this.panel.webview.onDidReceiveMessage((message) => this.handleMessage(message));
+      this.panel.onDidDispose(() => {
+        this.panel = undefined;
+      });
+    }
+
+    await this.loadSubmissions();
+  }
+
+  private async handleMessage(message: SubmissionHistoryMessage): Promise<void> {
+    switch (message.command) {
+      case 'refresh':
+        this.submissions = [];
+        await this.loadSubmissions();
+        break;
+      case 'loadMore':
+        await this.loadSubmissions(true);
+        break;
+      case 'openSource':
+        await this.openSource(message.submissionId);
+        break;
+      case 'openStatus':
+        if (this.problemId) {
+          vscode.env.openExternal(vscode.Uri.parse(
+            `https://www.acmicpc.net/status?problem_id=${this.problemId}&user_id=${encodeURIComponent(this.username)}`
+          ));
+        }
+        break;
+    }
+  }
+
+  private async loadSubmissions(append = false): Promise<void> {
+    const problemId = this.problemId;
+    if (!this.panel || !problemId) {
+      return;
+    }
+
+    const last = append ? this.submissions[this.submissions.length - 1] : undefined;
+    const top = last ? String(parseInt(last.submissionId) - 1) : undefined;
+
+    this.panel.webview.postMessage({ command: 'loading' });
+    try {
+      const cookie = await this.authService.getCookies();
+      const page = await this.bojService.getSubmissions(problemId, this.username, top, cookie);
+      this.submissions = append ? [...this.submissions, ...page] : page;
+
+      this.panel?.webview.postMessage({
+        command: 'submissions',
+        problemId,
+        username: this.username,
+        submissions: this.submissions.map((s) => ({ ...s, canOpenSource: this.canOpenSource(s) })),
+        hasMore: page.length >= STATUS_PAGE_SIZE
+      });
+    } catch (error) {
+      this.panel?.webview.postMessage({
+        command: 'error',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  // 본인의 맞은 제출만 소스를 볼 수 있음
+  private canOpenSource(submission: Submission): boolean {
+    return submission.username.toLowerCase() === this.username.toLowerCase() &&
+      /^맞았습니다/.test(submission.status);
+  }
+
+  private async openSource(submissionId: string): Promise<void> {
+    const submission = this.submissions.find((s) => s.submissionId === submissionId);
+    if (!submission || !this.canOpenSource(submission)) {
+      return;
+    }
+
+    let cookie = await this.authService.getCookies();
+    if (!cookie) {
+      const action = await vscode.window.showInformationMessage(
+        '소스 코드를 보려면 로그인 쿠키가 필요합니다.',
+        '쿠키 저장'
+      );
+      if (action === '쿠키 저장') {
+        cookie = await this.authService.promptForCookie();
+      }
+      if (!cookie) {
+        return;
+      }
+    }
+
+    try {
+      const source = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `제출 #${submissionId} 소스 가져오는 중...`
+        },
+        () => this.bojService.getSubmissionSource(submissionId, cookie!)
+      );
+
+      // 확장자로 언어 모드가 정해지도록 파일 이름에 확장자를 붙임
+      const language = BOJ_LANGUAGE_PATTERNS.find(([pattern]) => pattern.test(submission.language))?.[1];
+      const extension = language ? LANGUAGE_CONFIG[language].extension : '.txt';
+      const uri = this.virtualDocuments.createDocument(`${submission.problemId}_${submissionId}${extension}`, source);
+      const document = await vscode.workspace.openTextDocument(uri);
+      await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.One, preview: true });
+    } catch (error) {
+      vscode.window.showErrorMessage(`${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private getHtmlContent(): string {
+    return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline';">
+  <title>제출 기록</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: var(--vscode-font-family);
+      font-size: 13px;
+      color: var(--vscode-foreground);
+      background: var(--vscode-editor-background);
+      padding: 20px;
+    }
+    h1 { font-size: 18px; margin-bottom: 4px; }
+    .subtitle { font-size: 12px; color: var(--vscode-descriptionForeground); margin-bottom: 16px; }
+    .toolbar { display: flex; gap: 8px; margin-bottom: 16px; align-items: center; flex-wrap: wrap; }
+    button {
+      padding: 5px 12px;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 12px;
+    }
+    .btn-primary { background: var(--vscode-button-background); color: var(--vscode-button-foreground); }
+    .btn-primary:hover { background: var(--vscode-button-hoverBackground); }
+    .btn-secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+    .btn-secondary:hover { background: var(--vscode-button-secondaryHoverBackground); }
+    select {
+      padding: 4px 8px;
+      border: 1px solid var(--vscode-dropdown-border);
+      background: var(--vscode-dropdown-background);
+      color: var(--vscode-dropdown-foreground);
+      border-radius: 4px;
+      font-size: 12px;
+    }
+    table { width: 100%; border-collapse: collapse; }
+    th, td {
+      padding: 6px 10px;
+      text-align: left;
+      border-bottom: 1px solid var(--vscode-panel-border);
+      white-space: nowrap;
+    }
+    th { background: var(--vscode-sideBar-background); font-weight: bold; }
+    td.num { text-align: right; font-family: var(--vscode-editor-font-family); }
+    .verdict.ac { color: #009874; font-weight: bold; }
+    .verdict.wa { color: #dd4124; }
+    .verdict.pending { color: var(--vscode-descriptionForeground); }
+    .more { text-align: center; margin-top: 12px; }
+    .empty-msg { color: var(--vscode-descriptionForeground); padding: 24px; text-align: center; }
+    .error-msg { color: var(--vscode-errorForeground); padding: 12px; }
+    .hidden { display: none !important; }
+  </style>
+</head>
+<body>
+  <h1>📜 제출 기록</h1>
+  <div class="subtitle" id="subtitle"></div>
+
+  <div class="toolbar">
+    <select id="verdictFilter" onchange="render()"></select>
+    <select id="languageFilter" onchange="render()"></select>
+    <button class="btn-secondary" onclick="post('refresh')">새로고침</button>
+    <button class="btn-secondary" onclick="post('openStatus')">브라우저에서 보기</button>
+  </div>
+
+  <div id="error" class="error-msg hidden"></div>
+  <table>
+    <thead>
+      <tr>
+        <th>제출 번호</th>
+        <th>결과</th>
+        <th>언어</th>
+        <th>시간 (ms)</th>
+        <th>메모리 (KB)</th>
+        <th>코드 길이 (B)</th>
+        <th>제출한 시간</th>
+        <th></th>
+      </tr>
+    </thead>
+    <tbody id="rows"></tbody>
+  </table>
+  <div id="empty" class="empty-msg hidden">제출 기록이 없습니다</div>
+  <div class="more"><button id="loadMore" class="btn-secondary hidden" onclick="post('loadMore')">더 보기</button></div>
+
+  <script>
+    const vscode = acquireVsCodeApi();
+    let submissions = [];
+    let loading = false;
+
+    function esc(s) { if (s === undefined || s === null) return ''; const d = document.createElement('div'); d.textContent = s; return d.innerHTML; }
+    function post(command, extra) { vscode.postMessage(Object.assign({ command }, extra || {})); }
+
+    // "런타임 에러 (SegFault)", "채점 중 (42%)"의 괄호 부분은 필터에서 제외
+    function verdictGroup(status) { return (status || '').replace(/\\s*\\(.*\\)\\s*$/, ''); }
+
+    function verdictClass(s) {
+      if (s.pending) return 'pending';
+      return /^맞았습니다/.test(s.status) ? 'ac' : 'wa';
+    }
+
+    function fillSelect(id, label, values) {
+      const select = document.getElementById(id);
+      const current = select.value;
+      select.innerHTML = '<option value="">' + label + '</option>' +
+        values.map(v => '<option value="' + esc(v) + '">' + esc(v) + '</option>').join('');
+      select.value = values.includes(current) ? current : '';
+    }
+
+    function render() {
+      const verdict = document.getElementById('verdictFilter').value;
+      const language = document.getElementById('languageFilter').value;
+      const visible = submissions.filter(s =>
+        (!verdict || verdictGroup(s.status) === verdict) && (!language || s.language === language)
+      );
+
+      document.getElementById('rows').innerHTML = visible.map(s =>
+        '<tr>' +
+          '<td>' + esc(s.submissionId) + '</td>' +
+          '<td class="verdict ' + verdictClass(s) + '">' + esc(s.status || '-') + '</td>' +
+          '<td>' + esc(s.language) + '</td>' +
+          '<td class="num">' + esc(s.time || '-') + '</td>' +
+          '<td class="num">' + esc(s.memory || '-') + '</td>' +
+          '<td class="num">' + esc(s.codeLength || '-') + '</td>' +
+          '<td>' + esc(s.submittedAt || '') + '</td>' +
+          '<td>' + (s.canOpenSource
+            ? '<button class="btn-secondary" onclick="post(\\'openSource\\', { submissionId: \\'' + esc(s.submissionId) + '\\' })">소스 보기</button>'
+            : '') + '</td>' +
+        '</tr>'
+      ).join('');
+      document.getElementById('empty').classList.toggle('hidden', loading || visible.length > 0);
+    }
+
+    window.addEventListener('message', e => {
+      const msg = e.data;
+      switch (msg.command) {
+        case 'loading':
+          loading = true;
+          document.getElementById('subtitle').textContent = '불러오는 중...';
+          document.getElementById('error').classList.add('hidden');
+          break;
+        case 'submissions':
+          loading = false;
+          submissions = msg.submissions;
+          document.getElementById('subtitle').textContent =
+            msg.problemId + '번 · ' + msg.username + ' · ' + submissions.length + '개';
+          fillSelect('verdictFilter', '모든 결과', [...new Set(submissions.map(s => verdictGroup(s.status)))]);
+          fillSelect('languageFilter', '모든 언어', [...new Set(submissions.map(s => s.language))]);
+          document.getElementById('loadMore').classList.toggle('hidden', !msg.hasMore);
+          render();
+          break;
+        case 'error':
+          loading = false;
+          document.getElementById('subtitle').textContent = '';
+          document.getElementById('error').textContent = msg.message;
+          document.getElementById('error').classList.remove('hidden');
+          render();
+          break;
+      }
+    });
+  </script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,312 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CodeRunner, detectLanguage } from '../utils/compiler';
+import { describeChecker } from '../utils/checker';
+import { getActiveProfile } from '../utils/languageProfiles';
+import { LANGUAGE_CONFIG, TestCase, TestResult } from '../types';
+import { TemplateService } from '../services/TemplateService';
+import { TestCaseService } from '../services/TestCaseService';
+import { DiagnosticsService } from '../services/DiagnosticsService';
+
+const INTERACTIVE_TRANSCRIPT_TAIL = 30;
+
+/**
+ * VS Code Testing API 연동
+ * 문제 파일 하나가 테스트 항목이 되고, 예제/커스텀 케이스가 자식 항목이 된다.
+ */
+export class TestExplorerProvider implements vscode.Disposable {
+  private controller: vscode.TestController;
+  private codeRunner: CodeRunner;
+  private templateService: TemplateService;
+  private testCaseService: TestCaseService;
+  private diagnostics: DiagnosticsService;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    templateService: TemplateService,
+    testCaseService: TestCaseService,
+    diagnostics: DiagnosticsService
+  ) {
+    this.templateService = templateService;
+    this.testCaseService = testCaseService;
+    this.diagnostics = diagnostics;
+    this.codeRunner = new CodeRunner(diagnostics);
+
+    this.controller = vscode.tests.createTestController('bojmateTests', 'BOJ Mate');
+    this.controller.resolveHandler = async (item) => {
+      if (!item) {
+        await this.discoverFiles();
+        return;
+      }
+      this.resolveCases(item);
+    };
+    this.controller.refreshHandler = async () => {
+      this.controller.items.replace([]);
+      await this.discoverFiles();
+    };
+
+    this.controller.createRunProfile(
+      '테스트 실행',
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this.runHandler(request, token),
+      true
+    );
+
+    this.disposables.push(
+      this.controller,
+      vscode.workspace.onDidOpenTextDocument((doc) => this.addFileIfProblem(doc.uri)),
+      ...this.createWatchers()
+    );
+
+    for (const doc of vscode.workspace.textDocuments) {
+      this.addFileIfProblem(doc.uri);
+    }
+  }
+
+  /**
+   * 명령으로 실행한 결과를 Test Explorer에도 반영
+   */
+  reportResults(filePath: string, results: TestResult[]): void {
+    const fileItem = this.addFileIfProblem(vscode.Uri.file(filePath));
+    if (!fileItem) {
+      return;
+    }
+    this.resolveCases(fileItem);
+
+    const run = this.controller.createTestRun(
+      new vscode.TestRunRequest([fileItem]),
+      path.basename(filePath),
+      false
+    );
+    results.forEach((result) => {
+      const item = fileItem.children.get(this.caseId(fileItem, result.key ?? String(result.testCaseIndex)));
+      if (item) {
+        this.reportResult(run, item, result);
+      }
+    });
+    run.end();
+  }
+
+  private get codeGlob(): string {
+    const extensions = Object.values(LANGUAGE_CONFIG).map((c) => c.extension.slice(1));
+    return `**/[0-9]*.{${[...new Set(extensions)].join(',')}}`;
+  }
+
+  private createWatchers(): vscode.Disposable[] {
+    const codeWatcher = vscode.workspace.createFileSystemWatcher(this.codeGlob);
+    codeWatcher.onDidCreate((uri) => this.addFileIfProblem(uri));
+    codeWatcher.onDidDelete((uri) => this.controller.items.delete(uri.toString()));
+
+    // 커스텀 테스트 파일이 바뀌면 같은 문제의 자식 항목 갱신
+    const testsWatcher = vscode.workspace.createFileSystemWatcher('**/*.testcases.json');
+    const refreshCases = (uri: vscode.Uri) => {
+      const problemId = path.basename(uri.fsPath).split('.')[0];
+      const dir = path.dirname(uri.fsPath);
+      this.controller.items.forEach((item) => {
+        if (item.uri && path.dirname(item.uri.fsPath) === dir &&
+            this.templateService.findProblemIdFromPath(item.uri.fsPath) === problemId) {
+          this.resolveCases(item);
+        }
+      });
+    };
+    testsWatcher.onDidCreate(refreshCases);
+    testsWatcher.onDidChange(refreshCases);
+    testsWatcher.onDidDelete(refreshCases);
+
+    return [codeWatcher, testsWatcher];
+  }
+
+  private async discoverFiles(): Promise<void> {
+    const uris = await vscode.workspace.findFiles(this.codeGlob, '**/node_modules/**', 500);
+    for (const uri of uris) {
+      this.addFileIfProblem(uri);
+    }
+  }
+
+  private addFileIfProblem(uri: vscode.Uri): vscode.TestItem | undefined {
+    if (uri.scheme !== 'file' || !detectLanguage(uri.fsPath)) {
+      return undefined;
+    }
+    const problemId = this.templateService.findProblemIdFromPath(uri.fsPath);
+    if (!problemId) {
+      return undefined;
+    }
+
+    const existing = this.controller.items.get(uri.toString());
+    if (existing) {
+      return existing;
+    }
+
+    const item = this.controller.createTestItem(uri.toString(), path.basename(uri.fsPath), uri);
+    item.range = new vscode.Range(0, 0, 0, 0);
+    item.canResolveChildren = true;
+    this.controller.items.add(item);
+    return item;
+  }
+
+  private resolveCases(fileItem: vscode.TestItem): void {
+    if (!fileItem.uri) {
+      return;
+    }
+
+    try {
+      const { testCases } = this.testCaseService.loadTestData(fileItem.uri.fsPath);
+      fileItem.error = undefined;
+      fileItem.children.replace(
+        testCases.map((tc, i) => {
+          const child = this.controller.createTestItem(
+            this.caseId(fileItem, this.caseKey(tc, i)),
+            tc.label || `테스트 ${i + 1}`,
+            fileItem.uri
+          );
+          child.description = tc.source === 'custom' ? 'custom' : 'sample';
+          return child;
+        })
+      );
+    } catch (error) {
+      fileItem.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * 자식 항목 id는 케이스 위치가 아닌 key로 만든다
+   * (커스텀 케이스를 추가/삭제해도 이전 결과와 "실패한 테스트 다시 실행"이 같은 케이스를 가리키도록)
+   */
+  private caseId(fileItem: vscode.TestItem, key: string): string {
+    return `${fileItem.id}#${key}`;
+  }
+
+  private caseKey(tc: TestCase, index: number): string {
+    return tc.key ?? String(index);
+  }
+
+  private async runHandler(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+    const run = this.controller.createTestRun(request);
+
+    // 파일 단위로 묶기 (컴파일은 파일당 한 번)
+    const byFile = new Map<vscode.TestItem, Set<string> | 'all'>();
+    const queue: vscode.TestItem[] = [];
+    if (request.include) {
+      queue.push(...request.include);
+    } else {
+      this.controller.items.forEach((item) => queue.push(item));
+    }
+
+    for (const item of queue) {
+      if (request.exclude?.includes(item)) {
+        continue;
+      }
+      if (item.parent) {
+        const selected = byFile.get(item.parent);
+        if (selected !== 'all') {
+          byFile.set(item.parent, (selected ?? new Set<string>()).add(item.id));
+        }
+      } else {
+        byFile.set(item, 'all');
+      }
+    }
+
+    for (const [fileItem, selected] of byFile) {
+      if (token.isCancellationRequested) {
+        break;
+      }
+      await this.runFile(run, fileItem, selected, request.exclude);
+    }
+
+    run.end();
+  }
+
+  private async runFile(
+    run: vscode.TestRun,
+    fileItem: vscode.TestItem,
+    selected: Set<string> | 'all',
+    exclude?: readonly vscode.TestItem[]
+  ): Promise<void> {
+    const filePath = fileItem.uri!.fsPath;
+    const language = detectLanguage(filePath);
+    if (!language) {
+      return;
+    }
+
+    this.resolveCases(fileItem);
+    if (fileItem.error) {
+      return;
+    }
+
+    const {
+      testCases: allCases, timeLimitMs, memoryLimitKb, checker, interactive, interactorPath
+    } = this.testCaseService.loadTestData(filePath);
+    // resolveCases가 자식 항목을 새로 만들므로 id로 비교
+    const cases: TestCase[] = [];
+    const caseItems: vscode.TestItem[] = [];
+    allCases.forEach((tc, i) => {
+      const item = fileItem.children.get(this.caseId(fileItem, this.caseKey(tc, i)));
+      if (item && (selected === 'all' || selected.has(item.id)) && !exclude?.some((e) => e.id === item.id)) {
+        cases.push(tc);
+        caseItems.push(item);
+      }
+    });
+    if (caseItems.length === 0) {
+      return;
+    }
+
+    const document = vscode.workspace.textDocuments.find((doc) => doc.uri.fsPath === filePath);
+    if (document?.isDirty) {
+      await document.save();
+    }
+
+    if (interactive && !interactorPath) {
+      const message = new vscode.TestMessage('인터랙티브 문제입니다. "인터랙티브 모드 설정"에서 인터랙터를 선택해주세요.');
+      caseItems.forEach((item) => run.errored(item, message));
+      return;
+    }
+
+    caseItems.forEach((item) => run.enqueued(item));
+    const mode = interactive && interactorPath
+      ? `인터랙터: ${path.basename(interactorPath)}`
+      : `채점 방식: ${describeChecker(checker)}`;
+    run.appendOutput(`▶ ${path.basename(filePath)} · ${mode} · 프로필: ${getActiveProfile()}\r\n`);
+
+    caseItems.forEach((item) => run.started(item));
+
+    const results = await this.codeRunner.runTests(filePath, language, cases, undefined, {
+      timeLimitMs,
+      memoryLimitKb,
+      checker,
+      interactorPath: interactive ? interactorPath : undefined
+    });
+
+    results.forEach((result, i) => this.reportResult(run, caseItems[i], result));
+  }
+
+  private reportResult(run: vscode.TestRun, item: vscode.TestItem, result: TestResult): void {
+    if (result.passed) {
+      run.passed(item, result.executionTime);
+      return;
+    }
+
+    let summary = [result.checkerMessage, result.error].filter(Boolean).join('\n') || '출력이 다릅니다.';
+    if (result.interactive && result.transcript?.length) {
+      const transcript = result.transcript
+        .slice(-INTERACTIVE_TRANSCRIPT_TAIL)
+        .map((line) => `${line.from === 'solution' ? '→' : '←'} ${line.text}`);
+      summary += `\n\n대화 기록 (마지막 ${transcript.length}줄):\n${transcript.join('\n')}`;
+    }
+    // 실행 자체가 실패했거나 비교할 예상 출력이 없으면 diff 없이 메시지만 표시
+    const message = result.outputOnly || result.interactive || (result.error && !result.actual)
+      ? new vscode.TestMessage(summary)
+      : vscode.TestMessage.diff(summary, result.expected, result.actual);
+    if (item.uri) {
+      // 런타임 에러면 스택 트레이스의 위치로 이동
+      const frame = result.error ? this.diagnostics.findFrames(item.uri.fsPath, result.error)[0] : undefined;
+      message.location = frame
+        ? this.diagnostics.toLocation(frame)
+        : new vscode.Location(item.uri, new vscode.Position(0, 0));
+    }
+    run.failed(item, message, result.executionTime);
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
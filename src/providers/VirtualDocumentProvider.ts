@@ -0,0 +1,91 @@
+import * as vscode from 'vscode';
+import { findWhitespaceOnlyLines } from '../utils/checker';
+
+/**
+ * 예상/실제 출력처럼 디스크에 없는 텍스트를 읽기 전용 문서로 제공
+ * bojmate:/<id>/<이름> 형태의 URI를 사용한다.
+ */
+export class VirtualDocumentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  public static readonly scheme = 'bojmate';
+
+  private contents = new Map<string, string>();
+  private whitespaceLines = new Map<string, number[]>();
+  private nextId = 1;
+  private onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  private whitespaceDecoration: vscode.TextEditorDecorationType;
+  private disposables: vscode.Disposable[] = [];
+
+  readonly onDidChange = this.onDidChangeEmitter.event;
+
+  constructor() {
+    this.whitespaceDecoration = vscode.window.createTextEditorDecorationType({
+      isWholeLine: true,
+      backgroundColor: new vscode.ThemeColor('inputValidation.warningBackground'),
+      overviewRulerColor: new vscode.ThemeColor('editorWarning.foreground'),
+      overviewRulerLane: vscode.OverviewRulerLane.Right
+    });
+
+    this.disposables.push(
+      this.onDidChangeEmitter,
+      this.whitespaceDecoration,
+      vscode.window.onDidChangeVisibleTextEditors((editors) => this.applyDecorations(editors)),
+      vscode.workspace.onDidCloseTextDocument((doc) => {
+        if (doc.uri.scheme === VirtualDocumentProvider.scheme) {
+          this.contents.delete(doc.uri.toString());
+          this.whitespaceLines.delete(doc.uri.toString());
+        }
+      })
+    );
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? '';
+  }
+
+  createDocument(name: string, content: string): vscode.Uri {
+    const uri = vscode.Uri.from({
+      scheme: VirtualDocumentProvider.scheme,
+      path: `/${this.nextId++}/${name}`
+    });
+    this.contents.set(uri.toString(), content);
+    return uri;
+  }
+
+  /**
+   * 기본 diff 편집기로 예상/실제 출력 비교
+   * 공백만 다른 줄은 양쪽 모두 강조 표시 (diff 편집기는 줄 끝 공백을 무시할 수 있음)
+   */
+  async showDiff(title: string, expected: string, actual: string): Promise<void> {
+    const expectedUri = this.createDocument('예상 출력.txt', expected);
+    const actualUri = this.createDocument('실제 출력.txt', actual);
+
+    const lines = findWhitespaceOnlyLines(expected, actual);
+    if (lines.length > 0) {
+      this.whitespaceLines.set(expectedUri.toString(), lines);
+      this.whitespaceLines.set(actualUri.toString(), lines);
+    }
+
+    await vscode.commands.executeCommand('vscode.diff', expectedUri, actualUri, title, { preview: true });
+    this.applyDecorations(vscode.window.visibleTextEditors);
+  }
+
+  private applyDecorations(editors: readonly vscode.TextEditor[]): void {
+    for (const editor of editors) {
+      const lines = this.whitespaceLines.get(editor.document.uri.toString());
+      if (!lines) {
+        continue;
+      }
+      const ranges = lines
+        .filter((line) => line < editor.document.lineCount)
+        .map((line) => ({
+          range: editor.document.lineAt(line).range,
+          hoverMessage: '공백만 다릅니다 (띄어쓰기, 줄 끝 공백, 빈 줄 확인)'
+        }));
+      editor.setDecorations(this.whitespaceDecoration, ranges);
+    }
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
@@ -1,63 +1,16 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosError, AxiosInstance } from 'axios';
 import * as vscode from 'vscode';
-import { Problem, HintLevel, HintResponse } from '../types';
-
-export type AIProvider = 'openai' | 'anthropic' | 'google' | 'openrouter' | 'local';
-
-interface AISettings {
-  enabled: boolean;
-  provider: AIProvider;
-  baseUrl: string;
-  model: string;
-  hintLevel: HintLevel;
-  timeout: number;
-  advancedParams: Record<string, unknown>;
-}
-
-interface ProviderConfig {
-  baseUrl: string;
-  modelsEndpoint: string;
-  chatEndpoint: string;
-  authHeader: (apiKey: string) => Record<string, string>;
-}
+import { ChatMessage, Problem, HintLevel, HintResponse } from '../types';
+import { EdgeCase, parseEdgeCases } from '../utils/edgeCases';
+import { AI_PROVIDERS, AIModel, AIProvider, AISettings, ChatRequest, ProviderContext } from './ai';
 
-const PROVIDER_CONFIGS: Record<AIProvider, ProviderConfig> = {
-  openai: {
-    baseUrl: 'https://api.openai.com/v1',
-    modelsEndpoint: '/models',
-    chatEndpoint: '/chat/completions',
-    authHeader: (key) => ({ 'Authorization': `Bearer ${key}` })
-  },
-  anthropic: {
-    baseUrl: 'https://api.anthropic.com/v1',
-    modelsEndpoint: '/models',
-    chatEndpoint: '/messages',
-    authHeader: (key) => ({ 'x-api-key': key, 'anthropic-version': '2023-06-01' })
-  },
-  google: {
-    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
-    modelsEndpoint: '/models',
-    chatEndpoint: '/models/{model}:generateContent',
-    authHeader: () => ({})
-  },
-  openrouter: {
-    baseUrl: 'https://openrouter.ai/api/v1',
-    modelsEndpoint: '/models',
-    chatEndpoint: '/chat/completions',
-    authHeader: (key) => ({ 'Authorization': `Bearer ${key}` })
-  },
-  local: {
-    baseUrl: '',
-    modelsEndpoint: '/models',
-    chatEndpoint: '/chat/completions',
-    authHeader: (key) => key ? { 'Authorization': `Bearer ${key}` } : {}
-  }
-};
+export type { AIModel, AIProvider };
 
 const DEFAULT_SETTINGS: AISettings = {
   enabled: false,
   provider: 'openai',
   baseUrl: '',
+  apiVersion: '',
   model: '',
   hintLevel: 'algorithm',
   timeout: 60000,
@@ -67,9 +20,9 @@ const DEFAULT_SETTINGS: AISettings = {
 const SETTINGS_KEY = 'bojmate.ai.settings';
 const API_KEY_PREFIX = 'bojmate.ai.apiKey.';
 
-export interface AIModel {
-  id: string;
-  name: string;
+export interface StreamOptions {
+  onDelta: (content: string) => void; // 지금까지 받은 전체 응답
+  token?: vscode.CancellationToken; // 취소하면 그때까지 받은 응답을 반환
 }
 
 export class AIService {
@@ -113,10 +66,8 @@ export class AIService {
 
   private async initClient(): Promise<void> {
     const apiKey = await this.getApiKey();
-    const providerConfig = PROVIDER_CONFIGS[this.settings.provider];
-    const baseUrl = this.settings.provider === 'local'
-      ? this.settings.baseUrl
-      : providerConfig.baseUrl;
+    const adapter = AI_PROVIDERS[this.settings.provider];
+    const baseUrl = adapter.baseUrl ?? (this.settings.baseUrl || adapter.defaultBaseUrl);
 
     if (!baseUrl) {
       this.client = null;
@@ -128,7 +79,7 @@ export class AIService {
       timeout: this.settings.timeout,
       headers: {
         'Content-Type': 'application/json',
-        ...providerConfig.authHeader(apiKey)
+        ...adapter.authHeaders(apiKey)
       }
     });
   }
@@ -142,26 +93,17 @@ export class AIService {
       return { success: false, message: 'API 클라이언트가 초기화되지 않았습니다.' };
     }
 
-    const apiKey = await this.getApiKey();
-
     try {
-      if (this.settings.provider === 'google') {
-        const response = await this.client.get(`/models?key=${apiKey}`);
-        return { success: true, message: `연결 성공! ${response.data.models?.length || 0}개 모델 발견` };
-      } else {
-        const providerConfig = PROVIDER_CONFIGS[this.settings.provider];
-        const response = await this.client.get(providerConfig.modelsEndpoint);
-        const modelCount = response.data.data?.length || response.data.models?.length || 0;
-        return { success: true, message: `연결 성공! ${modelCount}개 모델 발견` };
-      }
+      const message = await AI_PROVIDERS[this.settings.provider].testConnection(this.getProviderContext());
+      return { success: true, message };
     } catch (error) {
       if (axios.isAxiosError(error)) {
         if (error.code === 'ECONNABORTED') {
           return { success: false, message: `연결 시간 초과 (${this.settings.timeout / 1000}초)` };
         }
-        return { success: false, message: `연결 실패: ${error.response?.data?.error?.message || error.message}` };
+        return { success: false, message: `연결 실패: ${await this.readErrorMessage(error)}` };
       }
-      return { success: false, message: `연결 실패: ${String(error)}` };
+      return { success: false, message: `연결 실패: ${error instanceof Error ? error.message : String(error)}` };
     }
   }
 
@@ -170,45 +112,9 @@ export class AIService {
       return [];
     }
 
-    const apiKey = await this.getApiKey();
-
     try {
-      let models: AIModel[] = [];
-
-      if (this.settings.provider === 'google') {
-        const response = await this.client.get(`/models?key=${apiKey}`);
-        models = (response.data.models || [])
-          .filter((m: any) => m.supportedGenerationMethods?.includes('generateContent'))
-          .map((m: any) => ({
-            id: m.name.replace('models/', ''),
-            name: m.displayName || m.name
-          }));
-      } else if (this.settings.provider === 'anthropic') {
-        models = [
-          { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4' },
-          { id: 'claude-opus-4-20250514', name: 'Claude Opus 4' },
-          { id: 'claude-3-5-sonnet-20241022', name: 'Claude 3.5 Sonnet' },
-          { id: 'claude-3-5-haiku-20241022', name: 'Claude 3.5 Haiku' },
-          { id: 'claude-3-opus-20240229', name: 'Claude 3 Opus' }
-        ];
-      } else {
-        const providerConfig = PROVIDER_CONFIGS[this.settings.provider];
-        const response = await this.client.get(providerConfig.modelsEndpoint);
-        const data = response.data.data || response.data.models || [];
-        models = data.map((m: any) => ({
-          id: m.id || m.name,
-          name: m.id || m.name
-        }));
-      }
-
-      if (this.settings.provider === 'openai') {
-        models = models.filter(m =>
-          m.id.includes('gpt') || m.id.includes('o1') || m.id.includes('o3')
-        );
-      }
-
-      this.cachedModels = models;
-      return models;
+      this.cachedModels = await AI_PROVIDERS[this.settings.provider].listModels(this.getProviderContext());
+      return this.cachedModels;
     } catch (error) {
       console.error('Failed to fetch models:', error);
       return this.cachedModels;
@@ -219,12 +125,17 @@ export class AIService {
     return this.cachedModels;
   }
 
-  async getHint(problem: Problem, level?: HintLevel, userCode?: string, customPrompt?: string): Promise<HintResponse> {
+  async getHint(
+    problem: Problem,
+    level?: HintLevel,
+    userCode?: string,
+    customPrompt?: string,
+    stream?: StreamOptions
+  ): Promise<HintResponse> {
     if (!this.isEnabled()) {
       throw new Error('AI 힌트 기능이 비활성화되어 있습니다. 설정에서 활성화해주세요.');
     }
 
-    const apiKey = await this.getApiKey();
     const hintLevel = level || this.settings.hintLevel;
 
     if (!this.settings.model) {
@@ -237,55 +148,148 @@ export class AIService {
     const userPrompt = this.buildPrompt(problem, hintLevel, userCode, customPrompt);
     const maxTokens = hintLevel === 'fullSolution' ? 2500 : 1500;
 
-    try {
-      let content: string;
-
-      const params = this.settings.advancedParams || {};
-
-      if (this.settings.provider === 'anthropic') {
-        const response = await this.client!.post('/messages', {
-          model: this.settings.model,
-          max_tokens: maxTokens,
-          system: systemPrompt,
-          messages: [{ role: 'user', content: userPrompt }],
-          ...params
-        });
-        content = response.data.content[0]?.text || '';
-      } else if (this.settings.provider === 'google') {
-        const response = await this.client!.post(
-          `/models/${this.settings.model}:generateContent?key=${apiKey}`,
-          {
-            contents: [{
-              parts: [{ text: `${systemPrompt}\n\n${userPrompt}` }]
-            }],
-            generationConfig: { maxOutputTokens: maxTokens, ...params }
-          }
-        );
-        content = response.data.candidates[0]?.content?.parts[0]?.text || '';
-      } else {
-        const response = await this.client!.post('/chat/completions', {
-          model: this.settings.model,
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt }
-          ],
-          temperature: 0.7,
-          max_tokens: maxTokens,
-          ...params
-        });
-        content = response.data.choices[0]?.message?.content || '';
+    const content = await this.complete(systemPrompt, [{ role: 'user', content: userPrompt }], maxTokens, stream);
+    return this.parseResponse(content, hintLevel);
+  }
+
+  /**
+   * 문제별 힌트 대화 이어가기
+   * 첫 메시지에 문제 정보를, 마지막 메시지에 현재 코드를 붙여 보낸다.
+   * maxLevel을 주면 그 힌트 단계보다 자세한 내용은 답하지 않게 한다 (힌트 사다리).
+   */
+  async chatHint(
+    problem: Problem,
+    messages: ChatMessage[],
+    userCode?: string,
+    stream?: StreamOptions,
+    maxLevel?: HintLevel
+  ): Promise<string> {
+    if (!this.isEnabled()) {
+      throw new Error('AI 힌트 기능이 비활성화되어 있습니다. 설정에서 활성화해주세요.');
+    }
+
+    if (!this.settings.model) {
+      throw new Error('모델이 선택되지 않았습니다. 설정에서 모델을 선택해주세요.');
+    }
+
+    const systemPrompt = '알고리즘 문제를 푸는 사용자를 돕는 튜터입니다. 마크다운으로 간결하게 답변하세요. 불필요한 서론/맺음말 없이 핵심만 작성하세요.\n' +
+      '사용자가 요청한 수준까지만 알려주고, 정답 코드는 사용자가 직접 요청한 경우에만 제공하세요. 이전 대화에서 이미 알려준 내용은 반복하지 마세요.' +
+      this.getHintLimitPrompt(maxLevel);
+    const prompt = messages.map((message, i) => {
+      let content = message.content;
+      if (i === 0) {
+        content = `${this.buildProblemContext(problem)}---\n\n${content}`;
+      }
+      if (i === messages.length - 1 && userCode?.trim()) {
+        content += `\n\n### 현재 작성 중인 코드\n\`\`\`\n${userCode}\n\`\`\``;
       }
+      return { role: message.role, content };
+    });
+
+    return this.complete(systemPrompt, prompt, 2500, stream);
+  }
+
+  private getHintLimitPrompt(maxLevel?: HintLevel): string {
+    switch (maxLevel) {
+      case 'algorithm':
+        return '\n사용자는 아직 알고리즘 분류 힌트까지만 받았습니다. 질문에 답하되 풀이 과정이나 코드는 알려주지 마세요.';
+      case 'stepByStep':
+        return '\n사용자는 아직 단계별 힌트까지만 받았습니다. 질문에 답하되 정답 코드는 알려주지 마세요.';
+      default:
+        return '';
+    }
+  }
+
+  /**
+   * 힌트 레벨 버튼을 눌렀을 때 대화에 보낼 요청
+   */
+  getHintRequest(level: HintLevel | 'more'): string {
+    switch (level) {
+      case 'algorithm':
+        return '어떤 알고리즘/자료구조를 써야 하는지 분류와 간단한 이유만 알려주세요. 코드나 풀이 과정은 빼주세요.';
+      case 'stepByStep':
+        return '풀이 과정을 3~5단계로 나눠 설명해주세요. 코드는 빼주세요.';
+      case 'fullSolution':
+        return '핵심 아이디어와 복잡도를 설명하고, 마지막에 바로 제출할 수 있는 전체 코드를 코드 블록으로 주세요.';
+      case 'more':
+        return '지난 힌트보다 한 단계 더 구체적인 힌트를 주세요. 이미 알려준 내용은 반복하지 말고, 정답 코드는 주지 마세요.';
+    }
+  }
+
+  private async complete(
+    systemPrompt: string,
+    messages: ChatMessage[],
+    maxTokens: number,
+    stream?: StreamOptions
+  ): Promise<string> {
+    const adapter = AI_PROVIDERS[this.settings.provider];
+    const request = {
+      model: this.settings.model,
+      system: systemPrompt,
+      messages,
+      maxTokens,
+      params: this.settings.advancedParams || {}
+    };
 
-      return this.parseResponse(content, hintLevel);
+    try {
+      if (stream) {
+        return await this.streamCompletion(request, stream);
+      }
+      return await adapter.chat(this.getProviderContext(), request);
     } catch (error) {
       if (axios.isAxiosError(error)) {
         if (error.code === 'ECONNABORTED') {
           throw new Error(`AI API 시간 초과 (${this.settings.timeout / 1000}초)`);
         }
-        throw new Error(`AI API 호출 실패: ${error.response?.data?.error?.message || error.message}`);
+        throw new Error(`AI API 호출 실패: ${await this.readErrorMessage(error)}`);
+      }
+      // 스트림 도중 받은 에러 이벤트 등
+      throw new Error(`AI API 호출 실패: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async streamCompletion(request: ChatRequest, stream: StreamOptions): Promise<string> {
+    const controller = new AbortController();
+    const cancellation = stream.token?.onCancellationRequested(() => controller.abort());
+    let content = '';
+
+    try {
+      await AI_PROVIDERS[this.settings.provider].stream(this.getProviderContext(), request, (delta) => {
+        content += delta;
+        stream.onDelta(content);
+      }, controller.signal);
+      return content;
+    } catch (error) {
+      if (stream.token?.isCancellationRequested) {
+        return content;
       }
       throw error;
+    } finally {
+      cancellation?.dispose();
+    }
+  }
+
+  private getProviderContext(): ProviderContext {
+    return { client: this.client!, settings: this.settings };
+  }
+
+  private async readErrorMessage(error: AxiosError): Promise<string> {
+    let data: any = error.response?.data;
+    // 스트리밍 요청이면 에러 응답 본문도 스트림으로 온다
+    if (data && typeof data.on === 'function') {
+      const chunks: Buffer[] = [];
+      try {
+        for await (const chunk of data) {
+          chunks.push(Buffer.from(chunk));
+        }
+        data = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+      } catch {
+        data = undefined;
+      }
     }
+    // 대부분 { error: { message } }, Ollama 등은 { error: '...' }, Bedrock은 { message }
+    const message = typeof data?.error === 'string' ? data.error : data?.error?.message || data?.message;
+    return message || error.message;
   }
 
   private getSystemPrompt(level: HintLevel, hasCode: boolean): string {
@@ -306,7 +310,7 @@ export class AIService {
     }
   }
 
-  private buildPrompt(problem: Problem, level: HintLevel, userCode?: string, customPrompt?: string): string {
+  private buildProblemContext(problem: Problem): string {
     let prompt = `## 문제: ${problem.id}번 - ${problem.title}\n\n`;
     prompt += `### 시간 제한: ${problem.timeLimit}\n`;
     prompt += `### 메모리 제한: ${problem.memoryLimit}\n\n`;
@@ -326,6 +330,12 @@ export class AIService {
       prompt += `### 태그 (참고용): ${problem.tags.join(', ')}\n\n`;
     }
 
+    return prompt;
+  }
+
+  private buildPrompt(problem: Problem, level: HintLevel, userCode?: string, customPrompt?: string): string {
+    let prompt = this.buildProblemContext(problem);
+
     if (userCode && userCode.trim()) {
       prompt += `---\n\n### 현재 작성 중인 코드\n\`\`\`\n${userCode}\n\`\`\`\n\n`;
       if (!customPrompt) {
@@ -359,13 +369,11 @@ export class AIService {
     await this.initClient();
   }
 
-  async getFeedback(problem: Problem, code: string, language: string): Promise<string> {
+  async getFeedback(problem: Problem, code: string, language: string, stream?: StreamOptions): Promise<string> {
     if (!this.isEnabled()) {
       throw new Error('AI 기능이 비활성화되어 있습니다. 설정에서 활성화해주세요.');
     }
 
-    const apiKey = await this.getApiKey();
-
     if (!this.settings.model) {
       throw new Error('모델이 선택되지 않았습니다. 설정에서 모델을 선택해주세요.');
     }
@@ -373,55 +381,36 @@ export class AIService {
     const systemPrompt = this.getFeedbackSystemPrompt();
     const userPrompt = this.buildFeedbackPrompt(problem, code, language);
 
-    try {
-      let content: string;
-
-      const params = this.settings.advancedParams || {};
-
-      if (this.settings.provider === 'anthropic') {
-        const response = await this.client!.post('/messages', {
-          model: this.settings.model,
-          max_tokens: 1500,
-          system: systemPrompt,
-          messages: [{ role: 'user', content: userPrompt }],
-          ...params
-        });
-        content = response.data.content[0]?.text || '';
-      } else if (this.settings.provider === 'google') {
-        const response = await this.client!.post(
-          `/models/${this.settings.model}:generateContent?key=${apiKey}`,
-          {
-            contents: [{
-              parts: [{ text: `${systemPrompt}\n\n${userPrompt}` }]
-            }],
-            generationConfig: { maxOutputTokens: 1500, ...params }
-          }
-        );
-        content = response.data.candidates[0]?.content?.parts[0]?.text || '';
-      } else {
-        const response = await this.client!.post('/chat/completions', {
-          model: this.settings.model,
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt }
-          ],
-          temperature: 0.7,
-          max_tokens: 1500,
-          ...params
-        });
-        content = response.data.choices[0]?.message?.content || '';
-      }
+    return this.complete(systemPrompt, [{ role: 'user', content: userPrompt }], 1500, stream);
+  }
 
-      return content;
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        if (error.code === 'ECONNABORTED') {
-          throw new Error(`AI API 시간 초과 (${this.settings.timeout / 1000}초)`);
-        }
-        throw new Error(`AI API 호출 실패: ${error.response?.data?.error?.message || error.message}`);
-      }
-      throw error;
+  /**
+   * 엣지 케이스 입력 생성 (출력은 만들지 않는다. 정답 코드로 계산)
+   */
+  async generateEdgeCases(problem: Problem, count: number, stream?: StreamOptions): Promise<EdgeCase[]> {
+    if (!this.isEnabled()) {
+      throw new Error('AI 기능이 비활성화되어 있습니다. 설정에서 활성화해주세요.');
+    }
+
+    if (!this.settings.model) {
+      throw new Error('모델이 선택되지 않았습니다. 설정에서 모델을 선택해주세요.');
+    }
+
+    const systemPrompt = `알고리즘 문제의 까다로운 테스트 입력을 만드는 출제자입니다. 설명 없이 아래 형식만 출력하세요.
+### 케이스 1: <이 입력이 노리는 점을 한 줄로>
+\`\`\`input
+<입력 그대로>
+\`\`\`
+입력은 문제의 입력 형식과 제약 조건을 반드시 지키고, 출력(정답)은 쓰지 마세요. 손으로 옮길 수 있는 크기로 만드세요.`;
+    const request = `최솟값/최댓값 경계, 0이나 음수, 같은 값 반복, 정렬/역정렬, 한쪽으로 치우친 구조처럼 흔히 틀리는 경우를 노린 입력 ${count}개를 만들어주세요.`;
+    const userPrompt = this.buildPrompt(problem, this.settings.hintLevel, undefined, request);
+
+    const content = await this.complete(systemPrompt, [{ role: 'user', content: userPrompt }], 2500, stream);
+    const cases = parseEdgeCases(content);
+    if (cases.length === 0 && !stream?.token?.isCancellationRequested) {
+      throw new Error('응답에서 입력을 찾지 못했습니다. 다시 시도해주세요.');
     }
+    return cases.slice(0, count);
   }
 
   private getFeedbackSystemPrompt(): string {
@@ -1,15 +1,246 @@
 import * as vscode from 'vscode';
+import { AccountProfile, LANGUAGE_CONFIG, SELECTABLE_LANGUAGES, SessionInfo, SupportedLanguage } from '../types';
+import { BojService } from './BojService';
 
 const COOKIES_KEY = 'bojmate.cookies';
 const SESSION_KEY = 'bojmate.session';
+const ACCOUNTS_KEY = 'bojmate.accounts';
+const ACTIVE_ACCOUNT_KEY = 'bojmate.activeAccount';
+
+// 기본 계정은 bojmate.username/bojmate.language 설정과 기존 저장 키를 그대로 사용
+export const DEFAULT_ACCOUNT = '기본';
+
+/**
+ * 계정별 저장 키 (기본 계정은 접미사 없음)
+ */
+export function accountStorageKey(key: string, account: string): string {
+  return account === DEFAULT_ACCOUNT ? key : `${key}:${account}`;
+}
 
 export class AuthService {
   private context: vscode.ExtensionContext;
+  private bojService: BojService;
+  private statusBarItem: vscode.StatusBarItem;
+  private onDidChangeSessionEmitter = new vscode.EventEmitter<SessionInfo | undefined>();
+  private onDidChangeAccountEmitter = new vscode.EventEmitter<AccountProfile>();
 
-  constructor(context: vscode.ExtensionContext) {
+  readonly onDidChangeSession = this.onDidChangeSessionEmitter.event;
+  readonly onDidChangeAccount = this.onDidChangeAccountEmitter.event;
+
+  constructor(context: vscode.ExtensionContext, bojService: BojService) {
     this.context = context;
+    this.bojService = bojService;
+
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 101);
+    this.statusBarItem.command = 'bojmate.switchAccount';
+    this.updateStatusBar();
+  }
+
+  // ===== 계정 프로필 =====
+
+  getAccounts(): AccountProfile[] {
+    const config = vscode.workspace.getConfiguration('bojmate');
+    const defaultAccount: AccountProfile = {
+      name: DEFAULT_ACCOUNT,
+      username: config.get<string>('username', '').trim(),
+      language: config.get<SupportedLanguage>('language', 'py')
+    };
+    return [defaultAccount, ...this.context.globalState.get<AccountProfile[]>(ACCOUNTS_KEY, [])];
+  }
+
+  getActiveAccount(): AccountProfile {
+    const name = this.context.globalState.get<string>(ACTIVE_ACCOUNT_KEY, DEFAULT_ACCOUNT);
+    const accounts = this.getAccounts();
+    return accounts.find((a) => a.name === name) ?? accounts[0];
+  }
+
+  getUsername(): string {
+    return this.getActiveAccount().username;
+  }
+
+  getDefaultLanguage(): SupportedLanguage {
+    const config = vscode.workspace.getConfiguration('bojmate');
+    return this.getActiveAccount().language ?? config.get<SupportedLanguage>('language', 'py');
   }
 
+  async addAccount(account: AccountProfile): Promise<boolean> {
+    const name = account.name.trim();
+    if (!name || this.getAccounts().some((a) => a.name === name)) {
+      vscode.window.showErrorMessage(`계정 이름 "${name}"을(를) 사용할 수 없습니다.`);
+      return false;
+    }
+    const stored = this.context.globalState.get<AccountProfile[]>(ACCOUNTS_KEY, []);
+    await this.context.globalState.update(ACCOUNTS_KEY, [...stored, { ...account, name }]);
+    return true;
+  }
+
+  async removeAccount(name: string): Promise<void> {
+    if (name === DEFAULT_ACCOUNT) {
+      return;
+    }
+    if (this.getActiveAccount().name === name) {
+      await this.switchAccount(DEFAULT_ACCOUNT);
+    }
+
+    const stored = this.context.globalState.get<AccountProfile[]>(ACCOUNTS_KEY, []);
+    await this.context.globalState.update(ACCOUNTS_KEY, stored.filter((a) => a.name !== name));
+    await this.context.secrets.delete(accountStorageKey(COOKIES_KEY, name));
+    await this.clearAccountData(name);
+    this.updateStatusBar();
+  }
+
+  /**
+   * 계정별로 저장된 globalState 전부 삭제 (세션, 풀이 기록, 진행 중인 문제, 가져오기/랜덤 기록 등)
+   * 같은 이름으로 계정을 다시 추가해도 이전 기록이 되살아나지 않게 한다.
+   */
+  private async clearAccountData(name: string): Promise<void> {
+    const suffix = `:${name}`;
+    const keys = this.context.globalState.keys().filter((key) =>
+      key.startsWith('bojmate.') &&
+      key.endsWith(suffix) &&
+      !key.slice(0, -suffix.length).includes(':')
+    );
+    for (const key of keys) {
+      await this.context.globalState.update(key, undefined);
+    }
+  }
+
+  async switchAccount(name: string): Promise<void> {
+    const account = this.getAccounts().find((a) => a.name === name);
+    if (!account) {
+      return;
+    }
+    await this.context.globalState.update(ACTIVE_ACCOUNT_KEY, name);
+    this.updateStatusBar();
+    this.onDidChangeAccountEmitter.fire(account);
+    this.onDidChangeSessionEmitter.fire(await this.getSessionInfo());
+  }
+
+  /**
+   * 계정 전환/추가/삭제 quick pick
+   */
+  async selectAccount(): Promise<void> {
+    const active = this.getActiveAccount();
+    const items: (vscode.QuickPickItem & { action: 'switch' | 'add' | 'remove'; name?: string })[] = [
+      ...this.getAccounts().map((account) => ({
+        label: `${account.name === active.name ? '$(check)' : '$(account)'} ${account.name}`,
+        description: [account.username || '아이디 미설정', account.language].filter(Boolean).join(' · '),
+        action: 'switch' as const,
+        name: account.name
+      })),
+      { label: '', kind: vscode.QuickPickItemKind.Separator, action: 'switch' },
+      { label: '$(add) 계정 추가', action: 'add' },
+      { label: '$(trash) 계정 삭제', action: 'remove' }
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, { placeHolder: `현재 계정: ${active.name}` });
+    if (!selected) {
+      return;
+    }
+
+    switch (selected.action) {
+      case 'switch':
+        if (selected.name && selected.name !== active.name) {
+          await this.switchAccount(selected.name);
+          vscode.window.showInformationMessage(`계정 전환: ${selected.name}`);
+        }
+        break;
+      case 'add':
+        await this.promptForAccount();
+        break;
+      case 'remove': {
+        const removable = this.getAccounts().filter((a) => a.name !== DEFAULT_ACCOUNT);
+        if (removable.length === 0) {
+          vscode.window.showInformationMessage('삭제할 수 있는 계정이 없습니다. (기본 계정은 삭제할 수 없습니다)');
+          return;
+        }
+        const target = await vscode.window.showQuickPick(
+          removable.map((a) => ({ label: a.name, description: a.username })),
+          { placeHolder: '삭제할 계정 (쿠키와 풀이 기록이 함께 삭제됩니다)' }
+        );
+        if (!target) {
+          return;
+        }
+        const confirm = await vscode.window.showWarningMessage(
+          `${target.label} 계정을 삭제할까요? 로그인 쿠키와 풀이 기록, 가져오기/랜덤 문제 기록이 함께 삭제됩니다.`,
+          { modal: true },
+          '삭제'
+        );
+        if (confirm === '삭제') {
+          await this.removeAccount(target.label);
+          vscode.window.showInformationMessage(`계정 삭제: ${target.label}`);
+        }
+        break;
+      }
+    }
+  }
+
+  private async promptForAccount(): Promise<void> {
+    const name = await vscode.window.showInputBox({
+      prompt: '계정 이름',
+      placeHolder: '예: 철수',
+      validateInput: (value) => this.getAccounts().some((a) => a.name === value.trim())
+        ? '이미 있는 계정 이름입니다'
+        : null
+    });
+    if (!name?.trim()) {
+      return;
+    }
+
+    const username = await vscode.window.showInputBox({
+      prompt: '백준 아이디 (쿠키를 저장하면 자동으로 채워집니다)',
+      placeHolder: '비워두면 쿠키 저장 시 설정'
+    });
+    if (username === undefined) {
+      return;
+    }
+
+    const language = await vscode.window.showQuickPick(
+      SELECTABLE_LANGUAGES.map((key) => ({
+        label: LANGUAGE_CONFIG[key].name,
+        description: LANGUAGE_CONFIG[key].extension,
+        value: key
+      })),
+      { placeHolder: '이 계정의 기본 언어' }
+    );
+
+    const added = await this.addAccount({ name, username: username.trim(), language: language?.value });
+    if (!added) {
+      return;
+    }
+    await this.switchAccount(name.trim());
+
+    const action = await vscode.window.showInformationMessage(
+      `${name.trim()} 계정을 추가했습니다. 코드 제출을 위해 로그인 쿠키를 저장하세요.`,
+      '쿠키 저장'
+    );
+    if (action === '쿠키 저장') {
+      await this.promptForCookie();
+    }
+  }
+
+  // 계정이 둘 이상일 때만 상태 표시줄에 표시
+  private updateStatusBar(): void {
+    if (this.getAccounts().length < 2) {
+      this.statusBarItem.hide();
+      return;
+    }
+    const account = this.getActiveAccount();
+    this.statusBarItem.text = `$(account) ${account.name}`;
+    this.statusBarItem.tooltip = `BOJ 계정: ${account.name}${account.username ? ` (${account.username})` : ''}\n클릭하여 계정 전환`;
+    this.statusBarItem.show();
+  }
+
+  private get cookiesKey(): string {
+    return accountStorageKey(COOKIES_KEY, this.getActiveAccount().name);
+  }
+
+  private get sessionKey(): string {
+    return accountStorageKey(SESSION_KEY, this.getActiveAccount().name);
+  }
+
+  // ===== 로그인 쿠키 =====
+
   async openLoginPage(): Promise<void> {
     const loginUrl = 'https://www.acmicpc.net/login';
 
@@ -93,16 +324,36 @@ export class AuthService {
       // 쿠키 형식 정규화
       const normalizedCookie = this.normalizeCookie(cookieValue.trim());
 
+      // 저장 전에 실제로 로그인된 쿠키인지 확인 (네트워크 오류면 확인 없이 저장)
+      let username: string | undefined;
+      let verified = true;
+      try {
+        username = await this.bojService.getLoggedInUsername(normalizedCookie);
+        if (!username) {
+          vscode.window.showErrorMessage('로그인되지 않은 쿠키입니다. 백준에 다시 로그인한 뒤 쿠키를 복사해주세요.');
+          return false;
+        }
+      } catch {
+        verified = false;
+      }
+
       // 암호화하여 저장 (VS Code의 SecretStorage 사용)
-      await this.context.secrets.store(COOKIES_KEY, normalizedCookie);
+      await this.context.secrets.store(this.cookiesKey, normalizedCookie);
 
       // 세션 정보 저장
-      await this.context.globalState.update(SESSION_KEY, {
+      await this.updateSession({
         savedAt: Date.now(),
-        valid: true
+        valid: true,
+        username,
+        checkedAt: verified ? Date.now() : undefined
       });
 
-      vscode.window.showInformationMessage('쿠키가 안전하게 저장되었습니다.');
+      if (username) {
+        vscode.window.showInformationMessage(`쿠키가 안전하게 저장되었습니다. (${username}님으로 로그인됨)`);
+        await this.syncUsername(username);
+      } else {
+        vscode.window.showWarningMessage('쿠키를 저장했지만 로그인 상태는 확인하지 못했습니다.');
+      }
       return true;
     } catch (error) {
       vscode.window.showErrorMessage(`쿠키 저장 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
@@ -110,6 +361,38 @@ export class AuthService {
     }
   }
 
+  /**
+   * 계정의 백준 아이디가 비어 있거나 로그인한 아이디와 다르면 맞춰줌
+   */
+  private async syncUsername(username: string): Promise<void> {
+    const account = this.getActiveAccount();
+    if (account.username.toLowerCase() === username.toLowerCase()) {
+      return;
+    }
+
+    if (account.username) {
+      const action = await vscode.window.showWarningMessage(
+        `${account.name} 계정의 아이디(${account.username})와 로그인한 아이디(${username})가 다릅니다.`,
+        '아이디 변경'
+      );
+      if (action !== '아이디 변경') {
+        return;
+      }
+    }
+
+    if (account.name === DEFAULT_ACCOUNT) {
+      const config = vscode.workspace.getConfiguration('bojmate');
+      await config.update('username', username, vscode.ConfigurationTarget.Global);
+    } else {
+      const stored = this.context.globalState.get<AccountProfile[]>(ACCOUNTS_KEY, []);
+      await this.context.globalState.update(
+        ACCOUNTS_KEY,
+        stored.map((a) => (a.name === account.name ? { ...a, username } : a))
+      );
+    }
+    this.updateStatusBar();
+  }
+
   private normalizeCookie(cookieValue: string): string {
     // 이미 "OnlineJudge=xxx" 형식인 경우 그대로 반환
     if (cookieValue.includes('OnlineJudge=')) {
@@ -131,22 +414,69 @@ export class AuthService {
   }
 
   async getCookies(): Promise<string | undefined> {
-    return await this.context.secrets.get(COOKIES_KEY);
+    return await this.context.secrets.get(this.cookiesKey);
   }
 
   async clearCookies(): Promise<void> {
-    await this.context.secrets.delete(COOKIES_KEY);
-    await this.context.globalState.update(SESSION_KEY, undefined);
+    await this.context.secrets.delete(this.cookiesKey);
+    await this.updateSession(undefined);
     vscode.window.showInformationMessage('저장된 쿠키가 삭제되었습니다.');
   }
 
   async isLoggedIn(): Promise<boolean> {
     const cookies = await this.getCookies();
-    return cookies !== undefined && cookies.length > 0;
+    const session = await this.getSessionInfo();
+    return cookies !== undefined && cookies.length > 0 && session?.valid !== false;
   }
 
-  async getSessionInfo(): Promise<{ savedAt: number; valid: boolean } | undefined> {
-    return this.context.globalState.get(SESSION_KEY);
+  async getSessionInfo(): Promise<SessionInfo | undefined> {
+    return this.context.globalState.get(this.sessionKey);
+  }
+
+  /**
+   * 저장된 쿠키로 백준에 로그인되어 있는지 확인하고 세션 정보 갱신
+   * 네트워크 오류로 확인하지 못하면 기존 세션 정보를 그대로 반환
+   */
+  async validateSession(): Promise<SessionInfo | undefined> {
+    const cookie = await this.getCookies();
+    const session = await this.getSessionInfo();
+    if (!cookie) {
+      return undefined;
+    }
+
+    let username: string | undefined;
+    try {
+      username = await this.bojService.getLoggedInUsername(cookie);
+    } catch {
+      return session;
+    }
+
+    const updated: SessionInfo = {
+      savedAt: session?.savedAt ?? Date.now(),
+      valid: !!username,
+      username: username ?? session?.username,
+      checkedAt: Date.now()
+    };
+    await this.updateSession(updated);
+    return updated;
+  }
+
+  /**
+   * 요청 중 로그인 페이지로 리다이렉트되었을 때 세션을 만료 처리
+   */
+  async markSessionInvalid(): Promise<void> {
+    const session = await this.getSessionInfo();
+    await this.updateSession({
+      savedAt: session?.savedAt ?? Date.now(),
+      valid: false,
+      username: session?.username,
+      checkedAt: Date.now()
+    });
+  }
+
+  private async updateSession(session: SessionInfo | undefined): Promise<void> {
+    await this.context.globalState.update(this.sessionKey, session);
+    this.onDidChangeSessionEmitter.fire(session);
   }
 
   async promptForCookie(): Promise<string | undefined> {
@@ -165,4 +495,10 @@ export class AuthService {
     }
     return undefined;
   }
+
+  dispose(): void {
+    this.statusBarItem.dispose();
+    this.onDidChangeSessionEmitter.dispose();
+    this.onDidChangeAccountEmitter.dispose();
+  }
 }
@@ -1,7 +1,15 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import * as vscode from 'vscode';
-import { Problem } from '../types';
-import { parseProblemPage } from '../utils/parser';
+import { Problem, Submission, SubmissionStatus, SubmitResult, SupportedLanguage, LANGUAGE_CONFIG } from '../types';
+import {
+  parseProblemPage,
+  parseSubmitPage,
+  parseLatestSubmissionId,
+  parseSubmissionResult,
+  parseSubmissionList,
+  parseSourcePage,
+  parseLoggedInUsername
+} from '../utils/parser';
 import { CacheManager } from '../utils/cache';
 
 export class BojService {
@@ -49,6 +57,172 @@ export class BojService {
     }
   }
 
+  /**
+   * 저장된 OnlineJudge 쿠키로 직접 제출
+   * 제출 페이지의 csrf_key를 받아 폼을 POST하고, 채점 현황으로 리다이렉트되면 성공
+   */
+  async submit(
+    problemId: string,
+    language: SupportedLanguage,
+    source: string,
+    cookie: string
+  ): Promise<SubmitResult> {
+    const codeOpen = vscode.workspace.getConfiguration('bojmate.submit').get<string>('codeOpen', 'onlyaccepted');
+    const submitPath = `/submit/${problemId}`;
+    // 리다이렉트 위치로 로그인/성공 여부를 판단하므로 직접 따라가지 않음
+    const requestOptions = {
+      headers: { Cookie: cookie },
+      maxRedirects: 0,
+      validateStatus: (status: number) => status < 400
+    };
+
+    try {
+      const page = await this.client.get(submitPath, requestOptions);
+      if (this.isLoginRedirect(page)) {
+        return { success: false, sessionExpired: true, error: '로그인 세션이 만료되었습니다. 쿠키를 다시 저장해주세요.' };
+      }
+
+      const { csrfKey, requiresCaptcha, error } = parseSubmitPage(page.data);
+      if (requiresCaptcha) {
+        return { success: false, error: '자동 제출이 차단되었습니다 (캡차 확인 필요).' };
+      }
+      if (!csrfKey) {
+        return { success: false, error: error || '제출 페이지에서 CSRF 키를 찾을 수 없습니다.' };
+      }
+
+      const form = new URLSearchParams({
+        problem_id: problemId,
+        language: String(LANGUAGE_CONFIG[language].bojLanguageId),
+        code_open: codeOpen,
+        source,
+        csrf_key: csrfKey
+      });
+      const response = await this.client.post(submitPath, form.toString(), {
+        ...requestOptions,
+        headers: {
+          ...requestOptions.headers,
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Referer': `${this.baseUrl}${submitPath}`
+        }
+      });
+
+      if (this.isLoginRedirect(response)) {
+        return { success: false, sessionExpired: true, error: '로그인 세션이 만료되었습니다. 쿠키를 다시 저장해주세요.' };
+      }
+
+      const location: string | undefined = response.headers['location'];
+      if (response.status >= 300 && location?.includes('/status')) {
+        const status = await this.client.get(location, { headers: { Cookie: cookie } });
+        return {
+          success: true,
+          submissionId: parseLatestSubmissionId(status.data),
+          message: '제출되었습니다.'
+        };
+      }
+
+      // 제출 페이지가 다시 표시되면 오류 메시지가 함께 온다
+      return { success: false, error: parseSubmitPage(response.data).error || '제출이 거부되었습니다.' };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return { success: false, error: `제출 요청 실패: ${error.message}` };
+      }
+      return { success: false, error: `제출 실패: ${error}` };
+    }
+  }
+
+  /**
+   * 쿠키로 로그인된 사용자 아이디 확인
+   * 로그인 페이지로 리다이렉트되면 세션이 만료된 것으로 보고 undefined 반환
+   */
+  async getLoggedInUsername(cookie: string): Promise<string | undefined> {
+    try {
+      const response = await this.client.get('/modify', {
+        headers: { Cookie: cookie },
+        maxRedirects: 0,
+        validateStatus: (status: number) => status < 400
+      });
+      if (this.isLoginRedirect(response)) {
+        return undefined;
+      }
+      return parseLoggedInUsername(response.data);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(`로그인 상태를 확인하지 못했습니다: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 제출 하나의 채점 상태 조회
+   * top 파라미터로 해당 제출부터 목록을 받아 그 행만 읽는다.
+   */
+  async getSubmissionStatus(problemId: string, submissionId: string, cookie?: string): Promise<SubmissionStatus> {
+    try {
+      const response = await this.client.get('/status', {
+        params: { problem_id: problemId, top: submissionId },
+        headers: cookie ? { Cookie: cookie } : undefined
+      });
+      return { submissionId, ...parseSubmissionResult(response.data, submissionId) };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(`채점 현황을 가져오는데 실패했습니다: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 문제별 제출 기록 조회 (한 페이지, 최신순)
+   * top을 주면 해당 제출 번호부터 이어서 가져온다.
+   */
+  async getSubmissions(problemId: string, username: string, top?: string, cookie?: string): Promise<Submission[]> {
+    try {
+      const response = await this.client.get('/status', {
+        params: { problem_id: problemId, user_id: username, ...(top ? { top } : {}) },
+        headers: cookie ? { Cookie: cookie } : undefined
+      });
+      return parseSubmissionList(response.data);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(`제출 기록을 가져오는데 실패했습니다: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 제출한 소스 코드 조회 (본인 제출만 볼 수 있어 로그인 쿠키 필요)
+   */
+  async getSubmissionSource(submissionId: string, cookie: string): Promise<string> {
+    try {
+      const response = await this.client.get(`/source/${submissionId}`, {
+        headers: { Cookie: cookie },
+        maxRedirects: 0,
+        validateStatus: (status: number) => status < 400
+      });
+      if (this.isLoginRedirect(response)) {
+        throw new Error('로그인 세션이 만료되었습니다. 쿠키를 다시 저장해주세요.');
+      }
+
+      const source = parseSourcePage(response.data);
+      if (source === undefined) {
+        throw new Error(`제출 #${submissionId}의 소스를 볼 수 있는 권한이 없습니다.`);
+      }
+      return source;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(`소스 코드를 가져오는데 실패했습니다: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  private isLoginRedirect(response: AxiosResponse): boolean {
+    const location: string | undefined = response.headers['location'];
+    return response.status >= 300 && response.status < 400 && !!location?.includes('/login');
+  }
+
   isValidProblemId(problemId: string): boolean {
     return /^\d+$/.test(problemId) && parseInt(problemId) > 0;
   }
@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { TestResult } from '../types';
+import { DiagnosticsReporter } from '../utils/compiler';
+import { DiagnosticLevel, SourceDiagnostic, parseCompilerOutput, parseRuntimeTrace } from '../utils/diagnostics';
+
+/**
+ * 컴파일 에러와 런타임 스택 트레이스를 편집기 진단(문제 패널)으로 표시
+ * 다음 컴파일이 성공하면 해당 파일의 컴파일로 생긴 진단(헤더 등 다른 파일 포함)을 모두 지운다.
+ */
+export class DiagnosticsService implements DiagnosticsReporter, vscode.Disposable {
+  private collection: vscode.DiagnosticCollection;
+  // 소스 파일별로 컴파일 에러를 표시한 파일 목록
+  private compileTargets = new Map<string, string[]>();
+
+  constructor() {
+    this.collection = vscode.languages.createDiagnosticCollection('bojmate');
+  }
+
+  reportCompile(filePath: string, error?: string): void {
+    const source = path.normalize(filePath);
+    for (const file of this.compileTargets.get(source) ?? [source]) {
+      this.collection.delete(vscode.Uri.file(file));
+    }
+    this.compileTargets.delete(source);
+    if (!error) {
+      return;
+    }
+
+    const parsed = parseCompilerOutput(error, path.dirname(filePath));
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+    for (const item of parsed) {
+      const diagnostics = byFile.get(item.file) ?? [];
+      diagnostics.push(this.toDiagnostic(item));
+      byFile.set(item.file, diagnostics);
+    }
+
+    // 위치를 알 수 없는 에러(링커 에러 등)는 파일 첫 줄에 표시
+    if (!byFile.has(path.normalize(filePath))) {
+      const firstLine = error.split('\n').find((line) => line.trim()) || '컴파일 실패';
+      byFile.set(path.normalize(filePath), [
+        this.toDiagnostic({ file: filePath, line: 1, column: 1, level: 'error', message: firstLine.trim() })
+      ]);
+    }
+
+    for (const [file, diagnostics] of byFile) {
+      this.collection.set(vscode.Uri.file(file), diagnostics);
+    }
+    this.compileTargets.set(source, [...byFile.keys()]);
+  }
+
+  reportRuntime(filePath: string, results: TestResult[]): void {
+    const diagnostics: vscode.Diagnostic[] = [];
+    const seen = new Set<string>();
+
+    for (const result of results) {
+      if (result.passed || !result.error) {
+        continue;
+      }
+      const frames = this.findFrames(filePath, result.error);
+      if (frames.length === 0) {
+        continue;
+      }
+
+      const key = `${frames[0].line}:${frames[0].message}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const name = result.label || `테스트 ${result.testCaseIndex + 1}`;
+      const diagnostic = this.toDiagnostic({ ...frames[0], message: `${name}: ${frames[0].message}` });
+      diagnostic.relatedInformation = frames.slice(1).map((frame) => new vscode.DiagnosticRelatedInformation(
+        this.toLocation(frame),
+        '호출 위치'
+      ));
+      diagnostics.push(diagnostic);
+    }
+
+    this.collection.set(vscode.Uri.file(filePath), diagnostics);
+  }
+
+  /**
+   * 런타임 에러 출력에서 소스 파일 안의 위치만 골라낸다 (가장 안쪽이 첫 번째)
+   */
+  findFrames(filePath: string, stderr: string): SourceDiagnostic[] {
+    const normalized = path.normalize(filePath);
+    const frames = parseRuntimeTrace(stderr, path.dirname(filePath), readSourceLine)
+      .filter((frame) => frame.file === normalized);
+    // 라이브러리 내부에서 에러가 난 경우에도 소스 파일의 가장 안쪽 위치를 에러로 표시
+    return frames.map((frame, i) => ({ ...frame, level: i === 0 ? 'error' : 'info' }));
+  }
+
+  toLocation(item: SourceDiagnostic): vscode.Location {
+    return new vscode.Location(
+      vscode.Uri.file(item.file),
+      new vscode.Position(Math.max(0, item.line - 1), Math.max(0, item.column - 1))
+    );
+  }
+
+  private toDiagnostic(item: SourceDiagnostic): vscode.Diagnostic {
+    const line = Math.max(0, item.line - 1);
+    const column = Math.max(0, item.column - 1);
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(line, column, line, Number.MAX_SAFE_INTEGER),
+      item.message,
+      this.toSeverity(item.level)
+    );
+    diagnostic.source = 'BOJ Mate';
+    return diagnostic;
+  }
+
+  private toSeverity(level: DiagnosticLevel): vscode.DiagnosticSeverity {
+    switch (level) {
+      case 'error':
+        return vscode.DiagnosticSeverity.Error;
+      case 'warning':
+        return vscode.DiagnosticSeverity.Warning;
+      default:
+        return vscode.DiagnosticSeverity.Information;
+    }
+  }
+
+  dispose(): void {
+    this.collection.dispose();
+  }
+}
+
+function readSourceLine(file: string, line: number): string | undefined {
+  try {
+    return fs.readFileSync(file, 'utf-8').split(/\r?\n/)[line - 1];
+  } catch {
+    return undefined;
+  }
+}
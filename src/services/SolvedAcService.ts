@@ -8,6 +8,18 @@ export interface SearchResult {
   items: SolvedAcProblem[];
 }
 
+// solved.ac 검색 API의 한 페이지 결과 수
+export const SEARCH_PAGE_SIZE = 50;
+
+// 랜덤 뽑기에서 쿼리에 직접 넣는 제외 번호 수 (URL 길이 제한)
+const RANDOM_QUERY_EXCLUDE_LIMIT = 100;
+// 한 페이지가 모두 제외됐을 때 다른 페이지를 보는 횟수 (첫 페이지 포함)
+const RANDOM_PAGE_ATTEMPTS = 4;
+
+// 검색 정렬 기준 (번호, 난이도, 푼 사람 수, 평균 시도)
+export type SearchSort = 'id' | 'level' | 'solved' | 'average_try';
+export type SortDirection = 'asc' | 'desc';
+
 export class SolvedAcService {
   private client: AxiosInstance;
   private cache: CacheManager;
@@ -51,8 +63,13 @@ export class SolvedAcService {
     }
   }
 
-  async searchProblems(query: string, page: number = 1): Promise<SearchResult> {
-    const cacheKey = `cache:search:${query}:${page}`;
+  async searchProblems(
+    query: string,
+    page: number = 1,
+    sort?: SearchSort,
+    direction: SortDirection = 'asc'
+  ): Promise<SearchResult> {
+    const cacheKey = `cache:search:${query}:${page}${sort ? `:${sort}:${direction}` : ''}`;
     const cached = await this.cache.get<SearchResult>(cacheKey);
     if (cached) {
       return cached;
@@ -60,7 +77,7 @@ export class SolvedAcService {
 
     try {
       const response = await this.client.get<SearchResult>('/search/problem', {
-        params: { query, page }
+        params: sort ? { query, page, sort, direction } : { query, page }
       });
 
       const data = response.data;
@@ -81,15 +98,31 @@ export class SolvedAcService {
     return this.searchProblems(query, page);
   }
 
-  async getRandomProblem(tierMin: number, tierMax: number): Promise<SolvedAcProblem | null> {
+  /**
+   * 쿼리에 맞는 문제를 무작위로 하나 고른다
+   * exclude의 마지막(최근) 번호는 쿼리에 !id:로 넣어 검색에서 빼고, 나머지는 결과에서 거른다.
+   * 한 페이지가 모두 제외되면 다른 무작위 페이지를 몇 번 더 본다. 끝내 없으면 null이다.
+   */
+  async getRandomProblem(query: string, exclude: Set<string> = new Set()): Promise<SolvedAcProblem | null> {
+    const excluded = [...exclude].slice(-RANDOM_QUERY_EXCLUDE_LIMIT).map((id) => `!id:${id}`);
+    const fullQuery = [query, ...excluded].join(' ');
+
     try {
-      const query = `tier:${tierMin}..${tierMax} solvable:true`;
-      const response = await this.client.get<SearchResult>('/search/problem', {
-        params: { query, sort: 'random', page: 1 }
-      });
+      let pages = 1;
+      for (let attempt = 0; attempt < RANDOM_PAGE_ATTEMPTS; attempt++) {
+        const page = attempt === 0 ? 1 : 1 + Math.floor(Math.random() * pages);
+        const response = await this.client.get<SearchResult>('/search/problem', {
+          params: { query: fullQuery, sort: 'random', page }
+        });
 
-      if (response.data.items.length > 0) {
-        return response.data.items[0];
+        const problem = response.data.items.find((p) => !exclude.has(String(p.problemId)));
+        if (problem) {
+          return problem;
+        }
+        pages = Math.ceil(response.data.count / SEARCH_PAGE_SIZE);
+        if (pages <= 1) {
+          break;
+        }
       }
       return null;
     } catch (error) {
@@ -98,6 +131,47 @@ export class SolvedAcService {
     }
   }
 
+  /**
+   * 사용자가 푼 문제 목록 (s@handle, 문제 번호순)
+   * 가져오기 중 누락이 없도록 캐시를 쓰지 않고 실패하면 예외를 던진다.
+   */
+  async getSolvedProblems(handle: string, page: number = 1): Promise<SearchResult> {
+    try {
+      const response = await this.client.get<SearchResult>('/search/problem', {
+        params: { query: `s@${handle}`, sort: 'id', direction: 'asc', page }
+      });
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 429) {
+          throw new Error('solved.ac 요청 한도를 초과했습니다. 잠시 후 다시 시도해주세요.');
+        }
+        throw new Error(`푼 문제 목록을 가져오는데 실패했습니다: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 주어진 문제들 중 사용자가 푼 문제와 시도했지만 못 푼 문제
+   * 검색 결과와 같은 캐시(10분)를 사용한다.
+   */
+  async getUserProblemStatus(handle: string, problemIds: string[]): Promise<{ solved: string[]; tried: string[] }> {
+    if (problemIds.length === 0) {
+      return { solved: [], tried: [] };
+    }
+
+    const ids = `(${problemIds.map((id) => `id:${id}`).join('|')})`;
+    const [solved, tried] = await Promise.all([
+      this.searchProblems(`s@${handle} ${ids}`),
+      this.searchProblems(`t@${handle} !s@${handle} ${ids}`)
+    ]);
+    return {
+      solved: solved.items.map((p) => String(p.problemId)),
+      tried: tried.items.map((p) => String(p.problemId))
+    };
+  }
+
   async getUserStats(username: string): Promise<{
     tier: number;
     tierName: string;
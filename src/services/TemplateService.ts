@@ -26,12 +26,24 @@ int main() {
     ios::sync_with_stdio(0);
     cin.tie(0);
 
+    return 0;
+}`,
+      c: `// \${problemId}번: \${title}
+#include <stdio.h>
+
+int main(void) {
+
     return 0;
 }`,
       py: `# \${problemId}번: \${title}
 import sys
 input = sys.stdin.readline
 
+`,
+      pypy: `# \${problemId}번: \${title}
+import sys
+input = sys.stdin.readline
+
 `,
       java: `// \${problemId}번: \${title}
 import java.io.*;
@@ -42,6 +54,13 @@ public class Main {
         BufferedReader br = new BufferedReader(new InputStreamReader(System.in));
 
     }
+}`,
+      kt: `// \${problemId}번: \${title}
+import java.io.*
+import java.util.*
+
+fun main() = with(BufferedReader(InputStreamReader(System.\`in\`))) {
+
 }`,
       js: `// \${problemId}번: \${title}
 const readline = require('readline');
@@ -64,7 +83,44 @@ fn main() {
     let stdout = io::stdout();
     let mut out = BufWriter::new(stdout.lock());
 
-}`
+}`,
+      go: `// \${problemId}번: \${title}
+package main
+
+import (
+	"bufio"
+	"fmt"
+	"os"
+)
+
+func main() {
+	reader := bufio.NewReader(os.Stdin)
+	writer := bufio.NewWriter(os.Stdout)
+	defer writer.Flush()
+
+	var n int
+	fmt.Fscan(reader, &n)
+	fmt.Fprintln(writer, n)
+}`,
+      cs: `// \${problemId}번: \${title}
+using System;
+using System.IO;
+
+public class Program {
+    public static void Main() {
+        var reader = new StreamReader(Console.OpenStandardInput());
+        var writer = new StreamWriter(Console.OpenStandardOutput());
+
+        writer.Flush();
+    }
+}`,
+      swift: `// \${problemId}번: \${title}
+import Foundation
+
+`,
+      rb: `# \${problemId}번: \${title}
+
+`
     };
     return defaults[language];
   }
@@ -182,7 +238,10 @@ fn main() {
       tags,
       codePath,
       testCases: problem.testCases,
-      timeLimit: problem.timeLimit
+      timeLimit: problem.timeLimit,
+      memoryLimit: problem.memoryLimit,
+      checker: problem.checker,
+      interactive: problem.interactive
     };
 
     await this.saveMetadata(problem.id, metadata);
@@ -0,0 +1,212 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { CheckerConfig, CustomTestCase, TestCase } from '../types';
+import { TemplateService } from './TemplateService';
+
+export interface TestData {
+  testCases: TestCase[];
+  timeLimitMs?: number;
+  memoryLimitKb?: number;
+  checker?: CheckerConfig;
+  interactive?: boolean;
+  interactorPath?: string;
+}
+
+interface CustomTestFile {
+  problemId: string;
+  testCases: CustomTestCase[];
+}
+
+export class TestCaseService {
+  private templateService: TemplateService;
+
+  constructor(templateService: TemplateService) {
+    this.templateService = templateService;
+  }
+
+  /**
+   * 예제 + 활성화된 커스텀 테스트 케이스, 제한시간, 메모리 제한, 채점 방식 로드
+   */
+  loadTestData(filePath: string): TestData {
+    const problemId = this.templateService.findProblemIdFromPath(filePath);
+    const metadata = problemId ? this.templateService.getMetadataById(problemId) : undefined;
+    const testCases = this.loadSampleTestCases(filePath);
+
+    for (const custom of this.loadCustomTests(filePath)) {
+      if (!custom.enabled) {
+        continue;
+      }
+      testCases.push({
+        input: custom.input,
+        output: custom.output ?? '',
+        source: 'custom',
+        label: custom.name,
+        key: `custom-${custom.id}`,
+        outputOnly: custom.output === undefined
+      });
+    }
+
+    return {
+      testCases,
+      timeLimitMs: metadata?.timeLimit ? this.parseTimeLimit(metadata.timeLimit) : undefined,
+      memoryLimitKb: metadata?.memoryLimit ? this.parseMemoryLimit(metadata.memoryLimit) : undefined,
+      checker: metadata?.checker,
+      interactive: metadata?.interactive,
+      interactorPath: metadata?.interactorPath
+    };
+  }
+
+  loadSampleTestCases(filePath: string): TestCase[] {
+    const problemId = this.templateService.findProblemIdFromPath(filePath);
+    const metadata = problemId ? this.templateService.getMetadataById(problemId) : undefined;
+
+    // 메타데이터가 없으면 기존 방식으로 파일에서 로드 (하위 호환성)
+    const samples = metadata?.testCases && metadata.testCases.length > 0
+      ? metadata.testCases
+      : this.loadTestCasesFromFiles(filePath);
+
+    return samples.map((tc, i) => ({
+      input: tc.input,
+      output: tc.output,
+      source: 'sample',
+      label: `예제 ${i + 1}`,
+      key: `sample-${i + 1}`
+    }));
+  }
+
+  parseTimeLimit(timeLimit: string): number {
+    // "1 초" → 1000ms, "2 초" → 2000ms, "0.5 초" → 500ms
+    // 로컬 실행은 BOJ 서버보다 느릴 수 있으므로 여유분(x2) 추가
+    const match = timeLimit.match(/([\d.]+)\s*초/);
+    if (match) {
+      const seconds = parseFloat(match[1]);
+      return Math.ceil(seconds * 2 * 1000); // x2 여유분
+    }
+    return 5000; // 파싱 실패 시 기본 5초
+  }
+
+  parseMemoryLimit(memoryLimit: string): number | undefined {
+    // "256 MB" → 262144KB, "1024 KB" → 1024KB
+    const match = memoryLimit.match(/([\d.]+)\s*(KB|MB|GB)/i);
+    if (!match) {
+      return undefined;
+    }
+    const units: Record<string, number> = { KB: 1, MB: 1024, GB: 1024 * 1024 };
+    return Math.round(parseFloat(match[1]) * units[match[2].toUpperCase()]);
+  }
+
+  private loadTestCasesFromFiles(filePath: string): TestCase[] {
+    const dir = path.dirname(filePath);
+    const testCases: TestCase[] = [];
+    let i = 1;
+
+    while (true) {
+      const inputPath = path.join(dir, `input${i}.txt`);
+      const outputPath = path.join(dir, `output${i}.txt`);
+
+      if (!fs.existsSync(inputPath) || !fs.existsSync(outputPath)) {
+        break;
+      }
+
+      testCases.push({
+        input: fs.readFileSync(inputPath, 'utf-8'),
+        output: fs.readFileSync(outputPath, 'utf-8')
+      });
+      i++;
+    }
+
+    return testCases;
+  }
+
+  // ===== 커스텀 테스트 케이스 =====
+
+  /**
+   * 코드 파일 옆의 {문제번호}.testcases.json 경로
+   */
+  getCustomTestsPath(filePath: string): string | null {
+    const problemId = this.templateService.findProblemIdFromPath(filePath);
+    if (!problemId) {
+      return null;
+    }
+    return path.join(path.dirname(filePath), `${problemId}.testcases.json`);
+  }
+
+  loadCustomTests(filePath: string): CustomTestCase[] {
+    const testsPath = this.getCustomTestsPath(filePath);
+    if (!testsPath || !fs.existsSync(testsPath)) {
+      return [];
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(testsPath, 'utf-8')) as Partial<CustomTestFile>;
+      return (data.testCases || []).filter((tc) => typeof tc.input === 'string');
+    } catch (error) {
+      throw new Error(`커스텀 테스트 파일을 읽을 수 없습니다 (${path.basename(testsPath)}): ${error}`);
+    }
+  }
+
+  saveCustomTests(filePath: string, testCases: CustomTestCase[]): void {
+    const testsPath = this.getCustomTestsPath(filePath);
+    const problemId = this.templateService.findProblemIdFromPath(filePath);
+    if (!testsPath || !problemId) {
+      throw new Error('파일 경로에서 문제 번호를 찾을 수 없습니다.');
+    }
+
+    const data: CustomTestFile = { problemId, testCases };
+    fs.writeFileSync(testsPath, JSON.stringify(data, null, 2) + '\n', 'utf-8');
+  }
+
+  addCustomTest(filePath: string, input: string, output?: string, name?: string): CustomTestCase {
+    const testCases = this.loadCustomTests(filePath);
+    const testCase: CustomTestCase = {
+      id: this.generateId(),
+      name: name?.trim() || `커스텀 ${testCases.length + 1}`,
+      input,
+      output: output === undefined || output === '' ? undefined : output,
+      enabled: true,
+      createdAt: Date.now()
+    };
+    testCases.push(testCase);
+    this.saveCustomTests(filePath, testCases);
+    return testCase;
+  }
+
+  updateCustomTest(filePath: string, id: string, updates: Partial<Omit<CustomTestCase, 'id'>>): void {
+    const testCases = this.loadCustomTests(filePath).map((tc) => {
+      if (tc.id !== id) {
+        return tc;
+      }
+      const updated = { ...tc, ...updates };
+      if (updated.output === '') {
+        updated.output = undefined;
+      }
+      return updated;
+    });
+    this.saveCustomTests(filePath, testCases);
+  }
+
+  duplicateCustomTest(filePath: string, id: string): void {
+    const testCases = this.loadCustomTests(filePath);
+    const index = testCases.findIndex((tc) => tc.id === id);
+    if (index === -1) {
+      return;
+    }
+    const original = testCases[index];
+    testCases.splice(index + 1, 0, {
+      ...original,
+      id: this.generateId(),
+      name: `${original.name} (복사본)`,
+      createdAt: Date.now()
+    });
+    this.saveCustomTests(filePath, testCases);
+  }
+
+  deleteCustomTest(filePath: string, id: string): void {
+    const testCases = this.loadCustomTests(filePath).filter((tc) => tc.id !== id);
+    this.saveCustomTests(filePath, testCases);
+  }
+
+  private generateId(): string {
+    return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  }
+}
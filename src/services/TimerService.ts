@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
-import { SolveRecord } from '../types';
+import { HintUsage, SolveRecord, SolveStats } from '../types';
+import { DEFAULT_ACCOUNT, accountStorageKey } from './AuthService';
 
 const SOLVE_RECORDS_KEY = 'bojmate.solveRecords';
 const CURRENT_PROBLEM_KEY = 'bojmate.currentProblem';
@@ -9,9 +10,11 @@ export class TimerService {
   private statusBarItem: vscode.StatusBarItem;
   private timerInterval: NodeJS.Timeout | null = null;
   private currentRecord: SolveRecord | null = null;
+  private account: string;
 
-  constructor(context: vscode.ExtensionContext) {
+  constructor(context: vscode.ExtensionContext, account: string = DEFAULT_ACCOUNT) {
     this.context = context;
+    this.account = account;
     this.statusBarItem = vscode.window.createStatusBarItem(
       vscode.StatusBarAlignment.Right,
       100
@@ -23,15 +26,48 @@ export class TimerService {
     this.restoreCurrentProblem();
   }
 
+  /**
+   * 계정 전환: 진행 중인 타이머를 멈추고 해당 계정의 기록으로 교체
+   */
+  async switchAccount(account: string): Promise<void> {
+    if (account === this.account) {
+      return;
+    }
+    if (this.timerInterval) {
+      clearInterval(this.timerInterval);
+      this.timerInterval = null;
+    }
+    this.currentRecord = null;
+    this.statusBarItem.hide();
+
+    this.account = account;
+    await this.restoreCurrentProblem();
+  }
+
+  private get recordsKey(): string {
+    return accountStorageKey(SOLVE_RECORDS_KEY, this.account);
+  }
+
+  private get currentProblemKey(): string {
+    return accountStorageKey(CURRENT_PROBLEM_KEY, this.account);
+  }
+
   private async restoreCurrentProblem(): Promise<void> {
-    const current = this.context.globalState.get<SolveRecord>(CURRENT_PROBLEM_KEY);
+    const current = this.context.globalState.get<SolveRecord>(this.currentProblemKey);
     if (current && current.status === 'solving') {
       this.currentRecord = current;
       this.startTimerDisplay();
     }
   }
 
-  async startTimer(problemId: string, title: string, tier: number, tierName: string, language: string): Promise<void> {
+  async startTimer(
+    problemId: string,
+    title: string,
+    tier: number,
+    tierName: string,
+    language: string,
+    tags: string[] = []
+  ): Promise<void> {
     // 이미 같은 문제를 풀고 있으면 무시
     if (this.currentRecord?.problemId === problemId && this.currentRecord.status === 'solving') {
       return;
@@ -59,11 +95,12 @@ export class TimerService {
         startTime: Date.now(),
         attempts: 0,
         status: 'solving',
-        language
+        language,
+        tags
       };
     }
 
-    await this.context.globalState.update(CURRENT_PROBLEM_KEY, this.currentRecord);
+    await this.context.globalState.update(this.currentProblemKey, this.currentRecord);
     this.startTimerDisplay();
 
     vscode.window.showInformationMessage(`⏱️ ${problemId}번: ${title} 풀이 시작!`);
@@ -140,7 +177,7 @@ export class TimerService {
 
     // 저장
     await this.saveRecord(this.currentRecord);
-    await this.context.globalState.update(CURRENT_PROBLEM_KEY, undefined);
+    await this.context.globalState.update(this.currentProblemKey, undefined);
 
     const record = this.currentRecord;
     this.currentRecord = null;
@@ -160,10 +197,25 @@ export class TimerService {
   async incrementAttempt(): Promise<void> {
     if (this.currentRecord) {
       this.currentRecord.attempts++;
-      await this.context.globalState.update(CURRENT_PROBLEM_KEY, this.currentRecord);
+      await this.context.globalState.update(this.currentProblemKey, this.currentRecord);
     }
   }
 
+  /**
+   * 진행 중인 문제에 받은 힌트 기록 (타이머가 다른 문제를 재고 있으면 false)
+   */
+  async recordHint(problemId: string, level: HintUsage['level']): Promise<boolean> {
+    if (this.currentRecord?.problemId !== problemId || this.currentRecord.status !== 'solving') {
+      return false;
+    }
+    this.currentRecord.hints = [
+      ...(this.currentRecord.hints || []),
+      { level, elapsed: Date.now() - this.currentRecord.startTime }
+    ];
+    await this.context.globalState.update(this.currentProblemKey, this.currentRecord);
+    return true;
+  }
+
   async saveRecord(record: SolveRecord): Promise<void> {
     const records = await this.getAllRecords();
 
@@ -173,11 +225,11 @@ export class TimerService {
     );
 
     filteredRecords.push(record);
-    await this.context.globalState.update(SOLVE_RECORDS_KEY, filteredRecords);
+    await this.context.globalState.update(this.recordsKey, filteredRecords);
   }
 
   async getAllRecords(): Promise<SolveRecord[]> {
-    return this.context.globalState.get<SolveRecord[]>(SOLVE_RECORDS_KEY, []);
+    return this.context.globalState.get<SolveRecord[]>(this.recordsKey, []);
   }
 
   async getRecordsByStatus(status: 'solving' | 'solved' | 'failed'): Promise<SolveRecord[]> {
@@ -185,36 +237,69 @@ export class TimerService {
     return records.filter((r) => r.status === status);
   }
 
-  async getStats(): Promise<{
-    totalSolved: number;
-    totalTime: number;
-    averageTime: number;
-    byTier: Record<string, { count: number; totalTime: number }>;
-    recentRecords: SolveRecord[];
-  }> {
+  /**
+   * 가져온 풀이 기록 추가 (이미 해결 기록이 있는 문제는 건너뜀)
+   * 추가된 개수 반환
+   */
+  async importRecords(imported: SolveRecord[]): Promise<number> {
+    const records = await this.getAllRecords();
+    const solvedIds = new Set(records.filter((r) => r.status === 'solved').map((r) => r.problemId));
+    const added = imported.filter((r) => !solvedIds.has(r.problemId));
+
+    if (added.length > 0) {
+      await this.context.globalState.update(this.recordsKey, [...records, ...added]);
+    }
+    return added.length;
+  }
+
+  async getStats(): Promise<SolveStats> {
     const records = await this.getAllRecords();
-    const solved = records.filter((r) => r.status === 'solved' && r.endTime);
 
-    const totalTime = solved.reduce(
+    // 같은 문제를 타이머로 다시 풀었으면 가져온 기록 대신 시간이 있는 기록 사용
+    const solvedById = new Map<string, SolveRecord>();
+    for (const record of records) {
+      if (record.status !== 'solved' || !(record.endTime || record.imported)) {
+        continue;
+      }
+      const existing = solvedById.get(record.problemId);
+      if (!existing || (existing.imported && !record.imported)) {
+        solvedById.set(record.problemId, record);
+      }
+    }
+    const solved = [...solvedById.values()];
+    const timed = solved.filter((r) => !r.imported);
+
+    const totalTime = timed.reduce(
       (sum, r) => sum + (r.endTime! - r.startTime),
       0
     );
 
-    const byTier: Record<string, { count: number; totalTime: number }> = {};
+    const byTier: SolveStats['byTier'] = {};
+    const byTag: SolveStats['byTag'] = {};
     for (const record of solved) {
       if (!byTier[record.tierName]) {
-        byTier[record.tierName] = { count: 0, totalTime: 0 };
+        byTier[record.tierName] = { tier: record.tier, count: 0, timedCount: 0, totalTime: 0 };
       }
       byTier[record.tierName].count++;
-      byTier[record.tierName].totalTime += record.endTime! - record.startTime;
+      if (!record.imported) {
+        byTier[record.tierName].timedCount++;
+        byTier[record.tierName].totalTime += record.endTime! - record.startTime;
+      }
+
+      for (const tag of record.tags || []) {
+        byTag[tag] = (byTag[tag] || 0) + 1;
+      }
     }
 
     return {
       totalSolved: solved.length,
+      importedCount: solved.length - timed.length,
+      assistedCount: solved.filter((r) => r.hints?.length).length,
       totalTime,
-      averageTime: solved.length > 0 ? totalTime / solved.length : 0,
+      averageTime: timed.length > 0 ? totalTime / timed.length : 0,
       byTier,
-      recentRecords: solved.slice(-10).reverse()
+      byTag,
+      recentRecords: timed.slice(-10).reverse()
     };
   }
 
@@ -0,0 +1,64 @@
+import { AIModel, AIProviderAdapter, ChatRequest, ProviderContext } from './types';
+import { parseEventData, readSse } from './stream';
+
+/**
+ * Anthropic Messages API
+ */
+export class AnthropicProvider implements AIProviderAdapter {
+  readonly label = 'Anthropic (Claude)';
+  readonly apiKeyDescription = 'Anthropic API 키를 입력하세요';
+  readonly baseUrl = 'https://api.anthropic.com/v1';
+
+  authHeaders(apiKey: string): Record<string, string> {
+    return { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' };
+  }
+
+  async chat(ctx: ProviderContext, request: ChatRequest): Promise<string> {
+    const response = await ctx.client.post('/messages', this.buildBody(request, false));
+    return response.data.content[0]?.text || '';
+  }
+
+  async stream(ctx: ProviderContext, request: ChatRequest, onDelta: (text: string) => void, signal: AbortSignal): Promise<void> {
+    const response = await ctx.client.post('/messages', this.buildBody(request, true), {
+      responseType: 'stream',
+      signal
+    });
+    await readSse(response.data, (event) => {
+      const data = parseEventData(event);
+      if (data?.type === 'error') {
+        throw new Error(data.error?.message || JSON.stringify(data.error));
+      }
+      if (data?.type === 'content_block_delta' && data.delta?.text) {
+        onDelta(data.delta.text);
+      }
+    });
+  }
+
+  async listModels(ctx: ProviderContext): Promise<AIModel[]> {
+    const models: AIModel[] = [];
+    let afterId: string | undefined;
+    // 한 페이지 최대 1000개, 다음 페이지는 after_id로
+    do {
+      const response = await ctx.client.get('/models', { params: { limit: 1000, after_id: afterId } });
+      models.push(...(response.data.data || []).map((m: any) => ({ id: m.id, name: m.display_name || m.id })));
+      afterId = response.data.has_more ? response.data.last_id : undefined;
+    } while (afterId);
+    return models;
+  }
+
+  async testConnection(ctx: ProviderContext): Promise<string> {
+    const models = await this.listModels(ctx);
+    return `연결 성공! ${models.length}개 모델 발견`;
+  }
+
+  private buildBody(request: ChatRequest, stream: boolean): Record<string, unknown> {
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      system: request.system,
+      messages: request.messages,
+      ...request.params,
+      ...(stream ? { stream: true } : {})
+    };
+  }
+}
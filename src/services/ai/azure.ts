@@ -0,0 +1,54 @@
+import { AIModel, ProviderContext } from './types';
+import { OpenAICompatibleProvider } from './openai';
+
+const DEFAULT_API_VERSION = '2024-10-21';
+// 배포 목록 API는 이 버전까지만 제공된다
+const DEPLOYMENTS_API_VERSION = '2022-12-01';
+
+/**
+ * Azure OpenAI
+ * Base URL은 리소스 엔드포인트(https://{리소스}.openai.azure.com), 모델은 배포 이름이다.
+ */
+export class AzureOpenAIProvider extends OpenAICompatibleProvider {
+  readonly usesApiVersion = true;
+
+  constructor() {
+    super({ label: 'Azure OpenAI', apiKeyDescription: 'Azure OpenAI 리소스 키를 입력하세요' });
+  }
+
+  authHeaders(apiKey: string): Record<string, string> {
+    return { 'api-key': apiKey };
+  }
+
+  async listModels(ctx: ProviderContext): Promise<AIModel[]> {
+    const response = await ctx.client.get('/openai/deployments', {
+      params: { 'api-version': DEPLOYMENTS_API_VERSION }
+    });
+    return (response.data.data || []).map((d: any) => ({ id: d.id, name: d.model ? `${d.id} (${d.model})` : d.id }));
+  }
+
+  async testConnection(ctx: ProviderContext): Promise<string> {
+    try {
+      const models = await this.listModels(ctx);
+      return `연결 성공! ${models.length}개 배포 발견`;
+    } catch (error) {
+      // 배포 목록을 막아둔 리소스면 입력한 배포로 짧게 요청해본다
+      if (!ctx.settings.model) {
+        throw error;
+      }
+      await this.chat(ctx, {
+        model: ctx.settings.model,
+        system: '',
+        messages: [{ role: 'user', content: 'ping' }],
+        maxTokens: 1,
+        params: {}
+      });
+      return `연결 성공! (${ctx.settings.model} 배포 응답 확인)`;
+    }
+  }
+
+  protected chatPath(ctx: ProviderContext, model: string): string {
+    const apiVersion = ctx.settings.apiVersion || DEFAULT_API_VERSION;
+    return `/openai/deployments/${encodeURIComponent(model)}/chat/completions?api-version=${encodeURIComponent(apiVersion)}`;
+  }
+}
@@ -0,0 +1,66 @@
+import { AIModel, AIProviderAdapter, ChatRequest, ProviderContext } from './types';
+import { readStream } from './stream';
+import { EventStreamDecoder } from '../../utils/eventStream';
+
+/**
+ * AWS Bedrock Converse API (또는 같은 형식의 게이트웨이)
+ * Bedrock API 키나 게이트웨이 토큰을 Bearer로 보낸다. SigV4 서명은 지원하지 않는다.
+ */
+export class BedrockProvider implements AIProviderAdapter {
+  readonly label = 'AWS Bedrock';
+  readonly apiKeyDescription = 'Bedrock API 키 또는 게이트웨이 토큰을 입력하세요';
+  readonly defaultBaseUrl = 'https://bedrock-runtime.us-east-1.amazonaws.com';
+
+  authHeaders(apiKey: string): Record<string, string> {
+    return apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+  }
+
+  async chat(ctx: ProviderContext, request: ChatRequest): Promise<string> {
+    const response = await ctx.client.post(`/model/${encodeURIComponent(request.model)}/converse`, this.buildBody(request));
+    return (response.data.output?.message?.content || []).map((c: any) => c.text || '').join('');
+  }
+
+  async stream(ctx: ProviderContext, request: ChatRequest, onDelta: (text: string) => void, signal: AbortSignal): Promise<void> {
+    const response = await ctx.client.post(`/model/${encodeURIComponent(request.model)}/converse-stream`, this.buildBody(request), {
+      responseType: 'stream',
+      signal
+    });
+    const decoder = new EventStreamDecoder();
+    await readStream(response.data, (chunk) => {
+      for (const message of decoder.push(chunk)) {
+        const payload = message.payload.length > 0 ? JSON.parse(message.payload.toString('utf-8')) : {};
+        if (message.headers[':message-type'] === 'exception') {
+          throw new Error(payload.message || message.headers[':exception-type']);
+        }
+        if (message.headers[':event-type'] === 'contentBlockDelta' && payload.delta?.text) {
+          onDelta(payload.delta.text);
+        }
+      }
+    });
+  }
+
+  async listModels(ctx: ProviderContext): Promise<AIModel[]> {
+    // 모델 목록은 런타임(bedrock-runtime)이 아닌 컨트롤 플레인(bedrock) 주소에 있다
+    const baseUrl = ctx.client.defaults.baseURL || '';
+    const url = baseUrl.replace(/\/\/bedrock-runtime\./, '//bedrock.').replace(/\/$/, '') + '/foundation-models';
+    const response = await ctx.client.get(url, { params: { byOutputModality: 'TEXT' } });
+    return (response.data.modelSummaries || []).map((m: any) => ({
+      id: m.modelId,
+      name: m.providerName ? `${m.providerName} ${m.modelName}` : m.modelName || m.modelId
+    }));
+  }
+
+  async testConnection(ctx: ProviderContext): Promise<string> {
+    const models = await this.listModels(ctx);
+    return `연결 성공! ${models.length}개 모델 발견`;
+  }
+
+  private buildBody(request: ChatRequest): Record<string, unknown> {
+    return {
+      system: request.system ? [{ text: request.system }] : [],
+      messages: request.messages.map((message) => ({ role: message.role, content: [{ text: message.content }] })),
+      // 고급 파라미터는 inferenceConfig에 병합 (temperature, topP, stopSequences)
+      inferenceConfig: { maxTokens: request.maxTokens, ...request.params }
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import { AIModel, AIProviderAdapter, ChatRequest, ProviderContext } from './types';
+import { parseEventData, readSse } from './stream';
+
+/**
+ * Google Gemini API (generateContent)
+ */
+export class GoogleProvider implements AIProviderAdapter {
+  readonly label = 'Google (Gemini)';
+  readonly apiKeyDescription = 'Google AI API 키를 입력하세요';
+  readonly baseUrl = 'https://generativelanguage.googleapis.com/v1beta';
+
+  authHeaders(apiKey: string): Record<string, string> {
+    return { 'x-goog-api-key': apiKey };
+  }
+
+  async chat(ctx: ProviderContext, request: ChatRequest): Promise<string> {
+    const response = await ctx.client.post(`/models/${request.model}:generateContent`, this.buildBody(request));
+    return this.readText(response.data);
+  }
+
+  async stream(ctx: ProviderContext, request: ChatRequest, onDelta: (text: string) => void, signal: AbortSignal): Promise<void> {
+    // alt=sse로 SSE 형식 응답을 받는다
+    const response = await ctx.client.post(`/models/${request.model}:streamGenerateContent?alt=sse`, this.buildBody(request), {
+      responseType: 'stream',
+      signal
+    });
+    await readSse(response.data, (event) => {
+      const data = parseEventData(event);
+      if (data?.error) {
+        throw new Error(data.error.message || JSON.stringify(data.error));
+      }
+      const text = data && this.readText(data);
+      if (text) {
+        onDelta(text);
+      }
+    });
+  }
+
+  async listModels(ctx: ProviderContext): Promise<AIModel[]> {
+    const response = await ctx.client.get('/models', { params: { pageSize: 1000 } });
+    return (response.data.models || [])
+      .filter((m: any) => m.supportedGenerationMethods?.includes('generateContent'))
+      .map((m: any) => ({
+        id: m.name.replace('models/', ''),
+        name: m.displayName || m.name
+      }));
+  }
+
+  async testConnection(ctx: ProviderContext): Promise<string> {
+    const models = await this.listModels(ctx);
+    return `연결 성공! ${models.length}개 모델 발견`;
+  }
+
+  private buildBody(request: ChatRequest): Record<string, unknown> {
+    return {
+      // 시스템 프롬프트는 첫 메시지 앞에 붙인다
+      contents: request.messages.map((message, i) => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: i === 0 ? `${request.system}\n\n${message.content}` : message.content }]
+      })),
+      generationConfig: { maxOutputTokens: request.maxTokens, ...request.params }
+    };
+  }
+
+  private readText(data: any): string {
+    return (data.candidates?.[0]?.content?.parts || []).map((part: any) => part.text || '').join('');
+  }
+}
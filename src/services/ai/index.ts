@@ -0,0 +1,35 @@
+import { AIProvider, AIProviderAdapter } from './types';
+import { OpenAICompatibleProvider } from './openai';
+import { AnthropicProvider } from './anthropic';
+import { GoogleProvider } from './google';
+import { OllamaProvider } from './ollama';
+import { AzureOpenAIProvider } from './azure';
+import { BedrockProvider } from './bedrock';
+
+export * from './types';
+
+/**
+ * 사용할 수 있는 AI 프로바이더 (설정 화면의 목록 순서)
+ */
+export const AI_PROVIDERS: Record<AIProvider, AIProviderAdapter> = {
+  openai: new OpenAICompatibleProvider({
+    label: 'OpenAI (GPT-4, GPT-4o)',
+    apiKeyDescription: 'OpenAI API 키를 입력하세요',
+    baseUrl: 'https://api.openai.com/v1',
+    modelFilter: (id) => id.includes('gpt') || id.includes('o1') || id.includes('o3')
+  }),
+  anthropic: new AnthropicProvider(),
+  google: new GoogleProvider(),
+  openrouter: new OpenAICompatibleProvider({
+    label: 'OpenRouter',
+    apiKeyDescription: 'OpenRouter API 키를 입력하세요',
+    baseUrl: 'https://openrouter.ai/api/v1'
+  }),
+  ollama: new OllamaProvider(),
+  azure: new AzureOpenAIProvider(),
+  bedrock: new BedrockProvider(),
+  local: new OpenAICompatibleProvider({
+    label: 'Local / Custom (OpenAI 호환)',
+    apiKeyDescription: 'API 키 (선택사항)'
+  })
+};
@@ -0,0 +1,56 @@
+import { AIModel, AIProviderAdapter, ChatRequest, ProviderContext } from './types';
+import { readJsonLines } from './stream';
+
+/**
+ * Ollama 네이티브 API (/api/chat)
+ * 스트리밍 응답은 SSE가 아니라 줄마다 JSON 객체가 온다.
+ */
+export class OllamaProvider implements AIProviderAdapter {
+  readonly label = 'Ollama';
+  readonly apiKeyDescription = 'API 키 (선택사항, 프록시 뒤에 있을 때만)';
+  readonly defaultBaseUrl = 'http://localhost:11434';
+
+  authHeaders(apiKey: string): Record<string, string> {
+    return apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+  }
+
+  async chat(ctx: ProviderContext, request: ChatRequest): Promise<string> {
+    const response = await ctx.client.post('/api/chat', this.buildBody(request, false));
+    return response.data.message?.content || '';
+  }
+
+  async stream(ctx: ProviderContext, request: ChatRequest, onDelta: (text: string) => void, signal: AbortSignal): Promise<void> {
+    const response = await ctx.client.post('/api/chat', this.buildBody(request, true), {
+      responseType: 'stream',
+      signal
+    });
+    await readJsonLines(response.data, (data) => {
+      if (data.error) {
+        throw new Error(data.error);
+      }
+      if (data.message?.content) {
+        onDelta(data.message.content);
+      }
+    });
+  }
+
+  async listModels(ctx: ProviderContext): Promise<AIModel[]> {
+    const response = await ctx.client.get('/api/tags');
+    return (response.data.models || []).map((m: any) => ({ id: m.name, name: m.name }));
+  }
+
+  async testConnection(ctx: ProviderContext): Promise<string> {
+    const models = await this.listModels(ctx);
+    return `연결 성공! ${models.length}개 모델 설치됨`;
+  }
+
+  private buildBody(request: ChatRequest, stream: boolean): Record<string, unknown> {
+    return {
+      model: request.model,
+      messages: [{ role: 'system', content: request.system }, ...request.messages],
+      stream,
+      // 고급 파라미터는 Ollama 모델 옵션 (temperature, num_ctx 등)
+      options: { num_predict: request.maxTokens, ...request.params }
+    };
+  }
+}
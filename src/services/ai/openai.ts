@@ -0,0 +1,83 @@
+import { AIModel, AIProviderAdapter, ChatRequest, ProviderContext } from './types';
+import { parseEventData, readSse } from './stream';
+
+interface OpenAICompatibleOptions {
+  label: string;
+  apiKeyDescription: string;
+  baseUrl?: string;
+  modelFilter?: (id: string) => boolean;
+}
+
+/**
+ * OpenAI Chat Completions 형식 (OpenAI, OpenRouter, 호환 서버)
+ */
+export class OpenAICompatibleProvider implements AIProviderAdapter {
+  readonly label: string;
+  readonly apiKeyDescription: string;
+  readonly baseUrl?: string;
+  private modelFilter?: (id: string) => boolean;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.label = options.label;
+    this.apiKeyDescription = options.apiKeyDescription;
+    this.baseUrl = options.baseUrl;
+    this.modelFilter = options.modelFilter;
+  }
+
+  authHeaders(apiKey: string): Record<string, string> {
+    return apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+  }
+
+  async chat(ctx: ProviderContext, request: ChatRequest): Promise<string> {
+    const response = await ctx.client.post(this.chatPath(ctx, request.model), this.buildBody(request, false));
+    return response.data.choices[0]?.message?.content || '';
+  }
+
+  async stream(ctx: ProviderContext, request: ChatRequest, onDelta: (text: string) => void, signal: AbortSignal): Promise<void> {
+    const response = await ctx.client.post(this.chatPath(ctx, request.model), this.buildBody(request, true), {
+      responseType: 'stream',
+      signal
+    });
+    await readSse(response.data, (event) => {
+      if (event.data === '[DONE]') {
+        return;
+      }
+      const data = parseEventData(event);
+      if (data?.error) {
+        throw new Error(data.error.message || JSON.stringify(data.error));
+      }
+      const text = data?.choices?.[0]?.delta?.content;
+      if (text) {
+        onDelta(text);
+      }
+    });
+  }
+
+  async listModels(ctx: ProviderContext): Promise<AIModel[]> {
+    const response = await ctx.client.get('/models');
+    const data = response.data.data || response.data.models || [];
+    return data
+      .map((m: any) => ({ id: m.id || m.name, name: m.id || m.name }))
+      .filter((m: AIModel) => !this.modelFilter || this.modelFilter(m.id));
+  }
+
+  async testConnection(ctx: ProviderContext): Promise<string> {
+    const models = await this.listModels(ctx);
+    return `연결 성공! ${models.length}개 모델 발견`;
+  }
+
+  protected chatPath(_ctx: ProviderContext, _model: string): string {
+    return '/chat/completions';
+  }
+
+  protected buildBody(request: ChatRequest, stream: boolean): Record<string, unknown> {
+    return {
+      model: request.model,
+      messages: [{ role: 'system', content: request.system }, ...request.messages],
+      temperature: 0.7,
+      max_tokens: request.maxTokens,
+      ...request.params,
+      ...(stream ? { stream: true } : {})
+    };
+  }
+}
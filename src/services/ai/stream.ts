@@ -0,0 +1,71 @@
+import { Readable } from 'stream';
+import { SseEvent, SseParser } from '../../utils/sse';
+
+/**
+ * 응답 스트림을 끝까지 읽으며 청크마다 onChunk 호출
+ * onChunk가 예외를 던지면 스트림을 닫고 그 예외로 실패한다.
+ */
+export function readStream(stream: Readable, onChunk: (chunk: Buffer) => void, onEnd?: () => void): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    stream.on('data', (chunk: Buffer) => {
+      try {
+        onChunk(chunk);
+      } catch (error) {
+        stream.destroy();
+        reject(error);
+      }
+    });
+    stream.on('end', () => {
+      try {
+        onEnd?.();
+        resolve();
+      } catch (error) {
+        reject(error);
+      }
+    });
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * Server-Sent Events 응답 읽기 (OpenAI 호환, Anthropic, Gemini)
+ */
+export function readSse(stream: Readable, onEvent: (event: SseEvent) => void): Promise<void> {
+  const parser = new SseParser();
+  const decoder = new TextDecoder();
+  return readStream(
+    stream,
+    (chunk) => parser.push(decoder.decode(chunk, { stream: true })).forEach(onEvent),
+    () => [...parser.push(decoder.decode()), ...parser.flush()].forEach(onEvent)
+  );
+}
+
+/**
+ * 줄마다 JSON 객체가 오는 응답 읽기 (Ollama)
+ */
+export function readJsonLines(stream: Readable, onObject: (data: any) => void): Promise<void> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  const handle = (lines: string[]) => lines.filter((line) => line.trim()).forEach((line) => onObject(JSON.parse(line)));
+  return readStream(
+    stream,
+    (chunk) => {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      handle(lines);
+    },
+    () => handle([buffer + decoder.decode()])
+  );
+}
+
+/**
+ * SSE 이벤트의 JSON 본문 (JSON이 아니면 undefined)
+ */
+export function parseEventData(event: SseEvent): any {
+  try {
+    return JSON.parse(event.data);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,54 @@
+import { AxiosInstance } from 'axios';
+import { ChatMessage, HintLevel } from '../../types';
+
+export type AIProvider = 'openai' | 'anthropic' | 'google' | 'openrouter' | 'local' | 'ollama' | 'azure' | 'bedrock';
+
+export interface AISettings {
+  enabled: boolean;
+  provider: AIProvider;
+  baseUrl: string;
+  apiVersion: string; // Azure OpenAI api-version (비우면 기본값)
+  model: string;
+  hintLevel: HintLevel;
+  timeout: number;
+  advancedParams: Record<string, unknown>;
+}
+
+export interface AIModel {
+  id: string;
+  name: string;
+}
+
+export interface ChatRequest {
+  model: string;
+  system: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  params: Record<string, unknown>; // 고급 파라미터 (요청 본문에 그대로 병합)
+}
+
+export interface ProviderContext {
+  client: AxiosInstance; // baseURL과 인증 헤더가 설정된 클라이언트
+  settings: AISettings;
+}
+
+/**
+ * AI 프로바이더 어댑터
+ * 프로바이더마다 하나씩 만들어 ai/index.ts의 AI_PROVIDERS에 등록한다.
+ * 에러 메시지 변환과 시간 초과 처리는 AIService가 맡는다.
+ */
+export interface AIProviderAdapter {
+  readonly label: string;
+  readonly apiKeyDescription: string;
+  readonly baseUrl?: string; // 고정 주소 (없으면 설정의 Base URL 사용)
+  readonly defaultBaseUrl?: string; // Base URL을 비워뒀을 때 쓰는 주소
+  readonly usesApiVersion?: boolean;
+
+  authHeaders(apiKey: string): Record<string, string>;
+  chat(ctx: ProviderContext, request: ChatRequest): Promise<string>;
+  // 생성된 텍스트 조각마다 onDelta 호출, signal이 취소되면 요청 중단
+  stream(ctx: ProviderContext, request: ChatRequest, onDelta: (text: string) => void, signal: AbortSignal): Promise<void>;
+  listModels(ctx: ProviderContext): Promise<AIModel[]>;
+  // 성공 메시지를 반환하고, 실패하면 예외를 던진다
+  testConnection(ctx: ProviderContext): Promise<string>;
+}
@@ -13,11 +13,28 @@ export interface Problem {
   tierName?: string;
   tags?: string[];
   source?: string;
+  checker?: CheckerConfig;
+  interactive?: boolean;
 }
 
+export type TestCaseSource = 'sample' | 'custom';
+
 export interface TestCase {
   input: string;
   output: string;
+  source?: TestCaseSource;
+  label?: string;
+  outputOnly?: boolean; // 예상 출력 없이 실행 결과만 확인
+  key?: string; // 케이스 추가/삭제에도 바뀌지 않는 식별자 (예제 번호 또는 커스텀 케이스 id)
+}
+
+export interface CustomTestCase {
+  id: string;
+  name: string;
+  input: string;
+  output?: string;
+  enabled: boolean;
+  createdAt: number;
 }
 
 export interface TestResult {
@@ -27,7 +44,29 @@ export interface TestResult {
   actual: string;
   passed: boolean;
   executionTime: number;
+  memoryKb?: number;
   error?: string;
+  checkerMessage?: string;
+  source?: TestCaseSource;
+  label?: string;
+  key?: string;
+  outputOnly?: boolean;
+  interactive?: boolean;
+  transcript?: InteractionLine[]; // 인터랙티브 모드의 대화 기록
+}
+
+export interface InteractionLine {
+  from: 'solution' | 'interactor';
+  text: string;
+}
+
+export type CheckerType = 'exact' | 'token' | 'epsilon' | 'unordered' | 'custom';
+
+export interface CheckerConfig {
+  type: CheckerType;
+  absoluteError?: number;
+  relativeError?: number;
+  checkerPath?: string; // custom: testlib 스타일 체커 프로그램 경로
 }
 
 export interface SolveRecord {
@@ -40,6 +79,25 @@ export interface SolveRecord {
   attempts: number;
   status: 'solving' | 'solved' | 'failed';
   language: string;
+  tags?: string[];
+  imported?: boolean; // solved.ac에서 가져온 기록 (풀이 시간 없음)
+  hints?: HintUsage[]; // 풀이 중 받은 AI 힌트
+}
+
+export interface HintUsage {
+  level: HintLevel | 'question'; // 'question': 힌트 대화에서 직접 한 질문
+  elapsed: number; // 힌트를 받은 시점의 타이머 경과 시간 (ms)
+}
+
+export interface SolveStats {
+  totalSolved: number;
+  importedCount: number;
+  assistedCount: number; // 힌트를 받아 푼 문제 수
+  totalTime: number;
+  averageTime: number; // 시간이 측정된 풀이 기준
+  byTier: Record<string, { tier: number; count: number; timedCount: number; totalTime: number }>;
+  byTag: Record<string, number>;
+  recentRecords: SolveRecord[];
 }
 
 export interface SubmitResult {
@@ -47,10 +105,52 @@ export interface SubmitResult {
   submissionId?: string;
   message?: string;
   error?: string;
+  sessionExpired?: boolean;
+}
+
+export interface AccountProfile {
+  name: string;
+  username: string; // 백준 아이디
+  language?: SupportedLanguage; // 문제 생성 시 기본 언어
+}
+
+export interface SessionInfo {
+  savedAt: number;
+  valid: boolean;
+  username?: string; // 쿠키로 로그인된 백준 아이디
+  checkedAt?: number;
+}
+
+export interface SubmissionStatus {
+  submissionId: string;
+  status: string; // 맞았습니다!!, 틀렸습니다, 채점 중 (42%) 등
+  memory?: string; // KB
+  time?: string; // ms
+  progress?: number;
+  pending: boolean;
+}
+
+export interface Submission extends SubmissionStatus {
+  username: string;
+  problemId: string;
+  language: string; // BOJ 표기 (예: C++17, Python 3)
+  codeLength?: string; // B
+  submittedAt?: string;
 }
 
 export type HintLevel = 'algorithm' | 'stepByStep' | 'fullSolution';
 
+// AI와 주고받은 메시지 (대화형 힌트)
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface HintChatMessage extends ChatMessage {
+  level?: HintLevel | 'more'; // 힌트 레벨을 골라 요청한 경우
+  createdAt: number;
+}
+
 export interface HintResponse {
   level: HintLevel;
   content: string;
@@ -95,6 +195,17 @@ export interface ProblemMetadata {
   codePath?: string;
   testCases?: TestCase[];
   timeLimit?: string;
+  memoryLimit?: string;
+  checker?: CheckerConfig;
+  interactive?: boolean;
+  interactorPath?: string; // 인터랙터 프로그램 경로 (input 파일을 인자로 받음)
+  stressTest?: StressTestConfig;
+}
+
+export interface StressTestConfig {
+  generatorPath: string;
+  referencePath: string;
+  iterations: number;
 }
 
 export interface CacheEntry<T> {
@@ -103,7 +214,8 @@ export interface CacheEntry<T> {
   ttl: number;
 }
 
-export type SupportedLanguage = 'cpp' | 'py' | 'java' | 'js' | 'rs';
+export type SupportedLanguage =
+  'cpp' | 'c' | 'py' | 'pypy' | 'java' | 'kt' | 'js' | 'rs' | 'go' | 'cs' | 'swift' | 'rb';
 
 export const LANGUAGE_CONFIG: Record<SupportedLanguage, {
   extension: string;
@@ -111,6 +223,7 @@ export const LANGUAGE_CONFIG: Record<SupportedLanguage, {
   name: string;
   compileArgs?: string[];
   runArgs: string[];
+  outputExtension?: string; // 컴파일 결과물 확장자 (.jar, .exe 등)
 }> = {
   cpp: {
     extension: '.cpp',
@@ -119,12 +232,26 @@ export const LANGUAGE_CONFIG: Record<SupportedLanguage, {
     compileArgs: ['g++', '-std=c++17', '-O2', '-o', '{output}', '{file}'],
     runArgs: ['{output}']
   },
+  c: {
+    extension: '.c',
+    bojLanguageId: 75, // C11
+    name: 'C',
+    compileArgs: ['gcc', '-std=c11', '-O2', '-o', '{output}', '{file}', '-lm'],
+    runArgs: ['{output}']
+  },
   py: {
     extension: '.py',
     bojLanguageId: 28, // Python 3
     name: 'Python',
     runArgs: ['python3', '{file}']
   },
+  // .py 확장자를 공유하므로 bojmate.pythonRuntime 설정으로 구분
+  pypy: {
+    extension: '.py',
+    bojLanguageId: 73, // PyPy3
+    name: 'PyPy3',
+    runArgs: ['pypy3', '{file}']
+  },
   java: {
     extension: '.java',
     bojLanguageId: 93, // Java 11
@@ -132,6 +259,14 @@ export const LANGUAGE_CONFIG: Record<SupportedLanguage, {
     compileArgs: ['javac', '{file}'],
     runArgs: ['java', '-cp', '{dir}', 'Main']
   },
+  kt: {
+    extension: '.kt',
+    bojLanguageId: 69, // Kotlin (JVM)
+    name: 'Kotlin',
+    compileArgs: ['kotlinc', '{file}', '-include-runtime', '-d', '{output}'],
+    runArgs: ['java', '-jar', '{output}'],
+    outputExtension: '.jar'
+  },
   js: {
     extension: '.js',
     bojLanguageId: 17, // Node.js
@@ -144,9 +279,41 @@ export const LANGUAGE_CONFIG: Record<SupportedLanguage, {
     name: 'Rust',
     compileArgs: ['rustc', '-O', '-o', '{output}', '{file}'],
     runArgs: ['{output}']
+  },
+  go: {
+    extension: '.go',
+    bojLanguageId: 12, // Go
+    name: 'Go',
+    compileArgs: ['go', 'build', '-o', '{output}', '{file}'],
+    runArgs: ['{output}']
+  },
+  cs: {
+    extension: '.cs',
+    bojLanguageId: 86, // C# 10.0 (.NET)
+    name: 'C#',
+    compileArgs: ['mcs', '-optimize+', '-out:{output}', '{file}'],
+    runArgs: ['mono', '{output}'],
+    outputExtension: '.exe'
+  },
+  swift: {
+    extension: '.swift',
+    bojLanguageId: 74, // Swift
+    name: 'Swift',
+    compileArgs: ['swiftc', '-O', '-o', '{output}', '{file}'],
+    runArgs: ['{output}']
+  },
+  rb: {
+    extension: '.rb',
+    bojLanguageId: 68, // Ruby
+    name: 'Ruby',
+    runArgs: ['ruby', '{file}']
   }
 };
 
+// 언어 선택 목록에 보여줄 언어 (PyPy3는 .py 파일에 bojmate.pythonRuntime 설정으로 고른다)
+export const SELECTABLE_LANGUAGES = (Object.keys(LANGUAGE_CONFIG) as SupportedLanguage[])
+  .filter((language) => language !== 'pypy');
+
 export const TIER_NAMES: Record<number, string> = {
   0: 'Unrated',
   1: 'Bronze V',
@@ -0,0 +1,250 @@
+import { CheckerConfig, CheckerType } from '../types';
+
+export interface CheckResult {
+  passed: boolean;
+  message?: string;
+}
+
+export const CHECKER_LABELS: Record<CheckerType, string> = {
+  exact: '정확히 일치',
+  token: '토큰 비교 (공백 무시)',
+  epsilon: '실수 오차 허용',
+  unordered: '줄 순서 무관',
+  custom: '사용자 체커'
+};
+
+export const DEFAULT_EPSILON = 1e-6;
+
+export function normalizeOutput(output: string): string {
+  return output
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .trim();
+}
+
+export function describeChecker(checker?: CheckerConfig): string {
+  if (!checker) {
+    return CHECKER_LABELS.exact;
+  }
+
+  if (checker.type === 'epsilon') {
+    const parts: string[] = [];
+    if (checker.absoluteError !== undefined) {
+      parts.push(`절대 ${checker.absoluteError}`);
+    }
+    if (checker.relativeError !== undefined) {
+      parts.push(`상대 ${checker.relativeError}`);
+    }
+    return `${CHECKER_LABELS.epsilon} (${parts.join(' / ') || `절대 ${DEFAULT_EPSILON}`})`;
+  }
+
+  return CHECKER_LABELS[checker.type];
+}
+
+/**
+ * 기대 출력과 실제 출력을 채점 방식에 따라 비교
+ * custom 체커는 외부 프로그램 실행이 필요하므로 CodeRunner에서 처리한다.
+ */
+export function compareOutput(expected: string, actual: string, checker?: CheckerConfig): CheckResult {
+  switch (checker?.type) {
+    case 'token':
+      return compareTokens(expected, actual);
+    case 'epsilon':
+      return compareWithEpsilon(expected, actual, checker);
+    case 'unordered':
+      return compareUnorderedLines(expected, actual);
+    case 'custom':
+      throw new Error('사용자 체커는 compareOutput으로 비교할 수 없습니다.');
+    default:
+      return compareExact(expected, actual);
+  }
+}
+
+function compareExact(expected: string, actual: string): CheckResult {
+  const expectedLines = normalizeOutput(expected).split('\n');
+  const actualLines = normalizeOutput(actual).split('\n');
+  const maxLines = Math.max(expectedLines.length, actualLines.length);
+
+  for (let i = 0; i < maxLines; i++) {
+    if (expectedLines[i] !== actualLines[i]) {
+      return { passed: false, message: `${i + 1}번째 줄이 다릅니다.` };
+    }
+  }
+  return { passed: true };
+}
+
+function tokenize(output: string): string[] {
+  return output.split(/\s+/).filter((t) => t.length > 0);
+}
+
+function compareTokens(expected: string, actual: string): CheckResult {
+  const expectedTokens = tokenize(expected);
+  const actualTokens = tokenize(actual);
+
+  const mismatch = findTokenMismatch(expectedTokens, actualTokens, (e, a) => e === a);
+  return mismatch ?? { passed: true };
+}
+
+function compareWithEpsilon(expected: string, actual: string, checker: CheckerConfig): CheckResult {
+  const absoluteError = checker.absoluteError;
+  const relativeError = checker.relativeError;
+  // 둘 다 지정되지 않으면 절대 오차 기본값 사용
+  const absLimit = absoluteError ?? (relativeError === undefined ? DEFAULT_EPSILON : undefined);
+
+  const mismatch = findTokenMismatch(tokenize(expected), tokenize(actual), (e, a) => {
+    const expectedNum = Number(e);
+    const actualNum = Number(a);
+    // 숫자가 아닌 토큰은 그대로 비교
+    if (!isNumericToken(e) || !isNumericToken(a)) {
+      return e === a;
+    }
+    const diff = Math.abs(expectedNum - actualNum);
+    if (absLimit !== undefined && diff <= absLimit + 1e-15) {
+      return true;
+    }
+    if (relativeError !== undefined && diff <= relativeError * Math.abs(expectedNum) + 1e-15) {
+      return true;
+    }
+    return false;
+  });
+  return mismatch ?? { passed: true };
+}
+
+function isNumericToken(token: string): boolean {
+  return /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(token);
+}
+
+function findTokenMismatch(
+  expectedTokens: string[],
+  actualTokens: string[],
+  equals: (expected: string, actual: string) => boolean
+): CheckResult | null {
+  const minLength = Math.min(expectedTokens.length, actualTokens.length);
+  for (let i = 0; i < minLength; i++) {
+    if (!equals(expectedTokens[i], actualTokens[i])) {
+      return {
+        passed: false,
+        message: `${i + 1}번째 토큰: 예상 "${expectedTokens[i]}", 실제 "${actualTokens[i]}"`
+      };
+    }
+  }
+
+  if (expectedTokens.length !== actualTokens.length) {
+    return {
+      passed: false,
+      message: `토큰 개수가 다릅니다. (예상 ${expectedTokens.length}개, 실제 ${actualTokens.length}개)`
+    };
+  }
+  return null;
+}
+
+function compareUnorderedLines(expected: string, actual: string): CheckResult {
+  const toLines = (output: string) =>
+    normalizeOutput(output)
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+      .sort();
+
+  const expectedLines = toLines(expected);
+  const actualLines = toLines(actual);
+
+  if (expectedLines.length !== actualLines.length) {
+    return {
+      passed: false,
+      message: `줄 개수가 다릅니다. (예상 ${expectedLines.length}줄, 실제 ${actualLines.length}줄)`
+    };
+  }
+
+  for (let i = 0; i < expectedLines.length; i++) {
+    if (expectedLines[i] !== actualLines[i]) {
+      return {
+        passed: false,
+        message: `줄 구성이 다릅니다. (예상 "${expectedLines[i]}", 실제 "${actualLines[i]}")`
+      };
+    }
+  }
+  return { passed: true };
+}
+
+// ===== 차이 분석 (차이 보기 / 결과 요약용) =====
+
+export interface OutputDifference {
+  line: number; // 0부터 시작
+  whitespaceOnly: boolean;
+  tokenIndex?: number;
+  expectedToken?: string;
+  actualToken?: string;
+}
+
+function splitOutputLines(output: string): string[] {
+  return output.replace(/\r\n/g, '\n').split('\n');
+}
+
+/**
+ * 토큰은 같지만 공백(띄어쓰기, 줄 끝 공백, 빈 줄)만 다른 줄 번호 목록
+ */
+export function findWhitespaceOnlyLines(expected: string, actual: string): number[] {
+  const expectedLines = splitOutputLines(expected);
+  const actualLines = splitOutputLines(actual);
+  const lines: number[] = [];
+
+  for (let i = 0; i < Math.max(expectedLines.length, actualLines.length); i++) {
+    const e = expectedLines[i] ?? '';
+    const a = actualLines[i] ?? '';
+    if (expectedLines[i] !== actualLines[i] && tokenize(e).join(' ') === tokenize(a).join(' ')) {
+      lines.push(i);
+    }
+  }
+  return lines;
+}
+
+/**
+ * 처음으로 달라지는 토큰을 찾는다. 토큰 차이가 없으면 첫 번째 공백 차이를 반환
+ */
+export function findFirstDifference(expected: string, actual: string): OutputDifference | undefined {
+  const expectedLines = splitOutputLines(expected);
+  const actualLines = splitOutputLines(actual);
+  let whitespaceDifference: OutputDifference | undefined;
+
+  for (let i = 0; i < Math.max(expectedLines.length, actualLines.length); i++) {
+    if (expectedLines[i] === actualLines[i]) {
+      continue;
+    }
+
+    const expectedTokens = tokenize(expectedLines[i] ?? '');
+    const actualTokens = tokenize(actualLines[i] ?? '');
+    for (let j = 0; j < Math.max(expectedTokens.length, actualTokens.length); j++) {
+      if (expectedTokens[j] !== actualTokens[j]) {
+        return {
+          line: i,
+          whitespaceOnly: false,
+          tokenIndex: j,
+          expectedToken: expectedTokens[j],
+          actualToken: actualTokens[j]
+        };
+      }
+    }
+
+    if (!whitespaceDifference) {
+      whitespaceDifference = { line: i, whitespaceOnly: true };
+    }
+  }
+
+  return whitespaceDifference;
+}
+
+export function describeDifference(diff: OutputDifference): string {
+  if (diff.whitespaceOnly) {
+    return `${diff.line + 1}번째 줄: 공백만 다릅니다.`;
+  }
+
+  const show = (token?: string) => {
+    if (token === undefined) {
+      return '(없음)';
+    }
+    return `"${token.length > 30 ? token.slice(0, 30) + '…' : token}"`;
+  };
+  return `${diff.line + 1}번째 줄 ${diff.tokenIndex! + 1}번째 토큰: 예상 ${show(diff.expectedToken)}, 실제 ${show(diff.actualToken)}`;
+}
@@ -1,8 +1,18 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import * as os from 'os';
 import { spawn, ChildProcess } from 'child_process';
-import { SupportedLanguage, LANGUAGE_CONFIG, TestCase, TestResult } from '../types';
+import {
+  SupportedLanguage,
+  LANGUAGE_CONFIG,
+  TestCase,
+  TestResult,
+  CheckerConfig,
+  InteractionLine
+} from '../types';
+import { CheckResult, compareOutput } from './checker';
+import { resolveLanguageCommands } from './languageProfiles';
 
 export interface CompileResult {
   success: boolean;
@@ -16,10 +26,63 @@ export interface ExecutionResult {
   exitCode: number | null;
   executionTime: number;
   timeout: boolean;
+  memoryKb?: number; // 최대 RSS (측정 가능한 환경에서만)
 }
 
+export interface ExecuteOptions {
+  timeLimitMs?: number;
+  extraArgs?: string[];
+  memoryCapKb?: number; // 주소 공간 제한 (ulimit -v)
+  rawOutput?: boolean; // stdout을 trim하지 않고 그대로 반환 (생성기 출력 등)
+}
+
+export interface InteractiveResult {
+  solution: ExecutionResult;
+  interactor: ExecutionResult;
+  transcript: InteractionLine[];
+  executionTime: number;
+  timeout: boolean;
+}
+
+export interface RunTestsOptions {
+  timeLimitMs?: number;
+  memoryLimitKb?: number;
+  checker?: CheckerConfig;
+  interactorPath?: string; // 지정하면 인터랙티브 모드로 실행
+}
+
+/**
+ * 컴파일/실행 결과를 편집기 진단으로 전달받는 쪽 (DiagnosticsService)
+ */
+export interface DiagnosticsReporter {
+  reportCompile(filePath: string, error?: string): void;
+  reportRuntime(filePath: string, results: TestResult[]): void;
+}
+
+export interface PreparedProgram {
+  filePath: string;
+  language: SupportedLanguage;
+  outputPath?: string;
+  workDir?: string; // 따로 복사해 컴파일한 임시 폴더
+}
+
+// 주소 공간 제한을 걸면 안 되는 언어 (VM이 시작 시 큰 가상 메모리를 예약)
+const ADDRESS_SPACE_CAP_UNSUPPORTED: SupportedLanguage[] = ['java', 'kt', 'js', 'go', 'cs'];
+// 공유 라이브러리 등 코드 외 매핑을 위한 여유분
+const ADDRESS_SPACE_HEADROOM_KB = 64 * 1024;
+const MEMORY_POLL_INTERVAL_MS = 10;
+const MAX_TRANSCRIPT_LINES = 1000;
+const OUT_OF_MEMORY_PATTERN = /bad_alloc|MemoryError|out of memory|Cannot allocate memory|memory allocation of \d+ bytes failed/i;
+
 export class CodeRunner {
   private readonly defaultTimeoutMs: number = 5000; // 5초 기본 타임아웃
+  private diagnostics?: DiagnosticsReporter;
+  // prepareProgram(isolate)로 만든 임시 폴더 (워크스페이스 밖이지만 실행 허용)
+  private isolatedDirs = new Set<string>();
+
+  constructor(diagnostics?: DiagnosticsReporter) {
+    this.diagnostics = diagnostics;
+  }
 
   private validateFilePath(filePath: string): string {
     const resolved = path.resolve(filePath);
@@ -27,10 +90,7 @@ export class CodeRunner {
     if (!workspaceFolders || workspaceFolders.length === 0) {
       throw new Error('워크스페이스가 열려있지 않습니다.');
     }
-    const isInsideWorkspace = workspaceFolders.some(
-      folder => resolved.startsWith(folder.uri.fsPath + path.sep) || resolved === folder.uri.fsPath
-    );
-    if (!isInsideWorkspace) {
+    if (!isInsideWorkspace(resolved) && !this.isIsolated(resolved)) {
       throw new Error('보안: 워크스페이스 외부 경로는 실행할 수 없습니다.');
     }
     if (resolved.includes('\0')) {
@@ -39,11 +99,20 @@ export class CodeRunner {
     return resolved;
   }
 
+  private isIsolated(filePath: string): boolean {
+    return this.isolatedDirs.has(path.dirname(path.resolve(filePath)));
+  }
+
   async compile(filePath: string, language: SupportedLanguage): Promise<CompileResult> {
     const config = LANGUAGE_CONFIG[language];
+    const { compileArgs } = resolveLanguageCommands(language);
+
+    // 임시 복사본의 에러는 편집기 진단으로 표시하지 않는다 (에러 메시지로만 전달)
+    const diagnostics = this.isIsolated(filePath) ? undefined : this.diagnostics;
 
     // 컴파일이 필요 없는 언어
-    if (!config.compileArgs) {
+    if (!compileArgs) {
+      diagnostics?.reportCompile(filePath);
       return { success: true };
     }
 
@@ -55,9 +124,9 @@ export class CodeRunner {
 
     const dir = path.dirname(filePath);
     const fileName = path.basename(filePath, config.extension);
-    const outputPath = path.join(dir, fileName);
+    const outputPath = path.join(dir, fileName + (config.outputExtension || ''));
 
-    const resolvedArgs = config.compileArgs.map(arg =>
+    const resolvedArgs = compileArgs.map(arg =>
       arg.replace('{file}', filePath)
         .replace('{output}', outputPath)
         .replace('{dir}', dir)
@@ -75,8 +144,10 @@ export class CodeRunner {
 
       proc.on('close', (code) => {
         if (code === 0) {
+          diagnostics?.reportCompile(filePath);
           resolve({ success: true, outputPath });
         } else {
+          diagnostics?.reportCompile(filePath, stderr);
           resolve({ success: false, error: stderr || `컴파일 실패 (exit code: ${code})` });
         }
       });
@@ -92,46 +163,64 @@ export class CodeRunner {
     language: SupportedLanguage,
     input: string,
     compiledPath?: string,
-    timeLimitMs?: number
+    options: ExecuteOptions = {}
   ): Promise<ExecutionResult> {
+    const { timeLimitMs, extraArgs = [], memoryCapKb, rawOutput } = options;
     try {
       filePath = this.validateFilePath(filePath);
     } catch (e) {
       return { stdout: '', stderr: (e as Error).message, exitCode: null, executionTime: 0, timeout: false };
     }
 
-    const config = LANGUAGE_CONFIG[language];
     const dir = path.dirname(filePath);
-    const fileName = path.basename(filePath, config.extension);
-
-    const resolvedArgs = config.runArgs.map(arg =>
-      arg.replace('{file}', filePath)
-        .replace('{output}', compiledPath || path.join(dir, fileName))
-        .replace('{dir}', dir)
-    );
-    const cmd = resolvedArgs[0];
-    const args = resolvedArgs.slice(1);
+    let { cmd, args } = this.buildRunCommand(filePath, language, compiledPath, extraArgs);
     const effectiveTimeout = timeLimitMs || this.defaultTimeoutMs;
 
+    // 메모리 제한 강제: 셸에서 ulimit 후 exec (exec이므로 pid가 그대로 유지되어 측정에 영향 없음)
+    // 스택도 BOJ처럼 메모리 제한만큼 허용하고, 재귀가 깊어지면 주소 공간 제한에 걸리게 한다.
+    if (memoryCapKb && process.platform !== 'win32') {
+      const script = `ulimit -s ${memoryCapKb} 2>/dev/null; ulimit -v ${memoryCapKb + ADDRESS_SPACE_HEADROOM_KB}; exec "$@"`;
+      args = ['-c', script, 'sh', cmd, ...args];
+      cmd = '/bin/sh';
+    }
+
     return new Promise((resolve) => {
       const startTime = Date.now();
       let stdout = '';
       let stderr = '';
       let timeout = false;
+      let memoryKb: number | undefined;
 
       const proc = spawn(cmd, args, { cwd: dir });
 
+      // 최대 RSS 측정: /proc/<pid>/status의 VmHWM을 주기적으로 읽는다 (Linux 전용)
+      const pollMemory = () => {
+        const peak = proc.pid ? readPeakMemoryKb(proc.pid) : undefined;
+        if (peak !== undefined) {
+          memoryKb = Math.max(memoryKb ?? 0, peak);
+        }
+      };
+      const memoryTimer = process.platform === 'linux'
+        ? setInterval(pollMemory, MEMORY_POLL_INTERVAL_MS)
+        : undefined;
+      pollMemory();
+
       // 타임아웃 설정 (문제 제한시간 사용)
       const timer = setTimeout(() => {
         timeout = true;
         proc.kill('SIGKILL');
       }, effectiveTimeout);
 
+      // 프로세스가 종료되면 더 이상 /proc 정보를 읽을 수 없음
+      proc.on('exit', () => {
+        clearInterval(memoryTimer);
+      });
+
       // 입력 전달
       if (input) {
         proc.stdin.write(input);
-        proc.stdin.end();
       }
+      proc.stdin.end();
 
       proc.stdout.on('data', (data) => {
         stdout += data.toString();
@@ -143,18 +232,21 @@ export class CodeRunner {
 
       proc.on('close', (code) => {
         clearTimeout(timer);
+        clearInterval(memoryTimer);
         const executionTime = Date.now() - startTime;
         resolve({
-          stdout: stdout.trim(),
+          stdout: rawOutput ? stdout : stdout.trim(),
           stderr: stderr.trim(),
           exitCode: code,
           executionTime,
-          timeout
+          timeout,
+          memoryKb
         });
       });
 
       proc.on('error', (err) => {
         clearTimeout(timer);
+        clearInterval(memoryTimer);
         resolve({
           stdout: '',
           stderr: `실행 실패: ${err.message}`,
@@ -166,22 +258,180 @@ export class CodeRunner {
     });
   }
 
+  private buildRunCommand(
+    filePath: string,
+    language: SupportedLanguage,
+    compiledPath?: string,
+    extraArgs: string[] = []
+  ): { cmd: string; args: string[] } {
+    const config = LANGUAGE_CONFIG[language];
+    const dir = path.dirname(filePath);
+    const fileName = path.basename(filePath, config.extension);
+
+    const resolvedArgs = resolveLanguageCommands(language).runArgs.map(arg =>
+      arg.replace('{file}', filePath)
+        .replace('{output}', compiledPath || path.join(dir, fileName + (config.outputExtension || '')))
+        .replace('{dir}', dir)
+    );
+    return { cmd: resolvedArgs[0], args: [...resolvedArgs.slice(1), ...extraArgs] };
+  }
+
+  /**
+   * 인터랙티브 실행: 풀이의 stdout → 인터랙터 stdin, 인터랙터 stdout → 풀이 stdin
+   * 인터랙터는 테스트 입력 파일 경로를 첫 번째 인자로 받고, 종료 코드 0이면 정답으로 처리
+   */
+  async executeInteractive(
+    solution: PreparedProgram,
+    interactor: PreparedProgram,
+    input: string,
+    timeLimitMs?: number
+  ): Promise<InteractiveResult> {
+    const failed = (message: string): ExecutionResult => ({
+      stdout: '', stderr: message, exitCode: null, executionTime: 0, timeout: false
+    });
+    let solutionPath: string;
+    let interactorPath: string;
+    try {
+      solutionPath = this.validateFilePath(solution.filePath);
+      interactorPath = this.validateFilePath(interactor.filePath);
+    } catch (e) {
+      const result = failed((e as Error).message);
+      return { solution: result, interactor: result, transcript: [], executionTime: 0, timeout: false };
+    }
+
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bojmate-interactive-'));
+    const inputPath = path.join(tempDir, 'input.txt');
+    fs.writeFileSync(inputPath, input, 'utf-8');
+
+    const solutionCommand = this.buildRunCommand(solutionPath, solution.language, solution.outputPath);
+    const interactorCommand = this.buildRunCommand(
+      interactorPath, interactor.language, interactor.outputPath, [inputPath]
+    );
+    const effectiveTimeout = timeLimitMs || this.defaultTimeoutMs;
+
+    return new Promise((resolve) => {
+      const startTime = Date.now();
+      const transcript: InteractionLine[] = [];
+      let timeout = false;
+
+      // 줄 단위로 대화 기록 (청크가 줄 중간에서 끊길 수 있으므로 버퍼링)
+      const partial = { solution: '', interactor: '' };
+      const record = (from: InteractionLine['from'], chunk: string, flush = false) => {
+        const lines = (partial[from] + chunk).split('\n');
+        partial[from] = flush ? '' : lines.pop() || '';
+        for (const text of lines) {
+          if (flush && text === '') {
+            continue;
+          }
+          if (transcript.length < MAX_TRANSCRIPT_LINES) {
+            transcript.push({ from, text });
+          } else if (transcript.length === MAX_TRANSCRIPT_LINES) {
+            transcript.push({ from, text: `... (${MAX_TRANSCRIPT_LINES}줄 이후 생략)` });
+          }
+        }
+      };
+
+      const spawnSide = (command: { cmd: string; args: string[] }, cwd: string) => {
+        const proc = spawn(command.cmd, command.args, { cwd });
+        // 상대가 먼저 종료되어 파이프가 닫혀도 무시
+        proc.stdin.on('error', () => undefined);
+        return proc;
+      };
+      const solutionProc = spawnSide(solutionCommand, path.dirname(solutionPath));
+      const interactorProc = spawnSide(interactorCommand, path.dirname(interactorPath));
+
+      const results: { solution?: ExecutionResult; interactor?: ExecutionResult } = {};
+      const stderr = { solution: '', interactor: '' };
+      const stdout = { solution: '', interactor: '' };
+
+      // 제한시간은 두 프로세스 모두에 적용
+      const timer = setTimeout(() => {
+        timeout = true;
+        solutionProc.kill('SIGKILL');
+        interactorProc.kill('SIGKILL');
+      }, effectiveTimeout);
+
+      const finish = () => {
+        if (!results.solution || !results.interactor) {
+          return;
+        }
+        clearTimeout(timer);
+        fs.rmSync(tempDir, { recursive: true, force: true });
+        resolve({
+          solution: results.solution,
+          interactor: results.interactor,
+          transcript,
+          executionTime: Date.now() - startTime,
+          timeout
+        });
+      };
+
+      const wire = (
+        side: InteractionLine['from'],
+        proc: ChildProcess,
+        peer: ChildProcess
+      ) => {
+        proc.stdout!.on('data', (data) => {
+          const text = data.toString();
+          stdout[side] += text;
+          record(side, text);
+          if (peer.stdin!.writable) {
+            peer.stdin!.write(data);
+          }
+        });
+        proc.stderr!.on('data', (data) => {
+          stderr[side] += data.toString();
+        });
+        proc.on('close', (code) => {
+          record(side, '', true);
+          peer.stdin!.end();
+          results[side] = {
+            stdout: stdout[side].trim(),
+            stderr: stderr[side].trim(),
+            exitCode: code,
+            executionTime: Date.now() - startTime,
+            timeout
+          };
+          finish();
+        });
+        proc.on('error', (err) => {
+          peer.kill('SIGKILL');
+          results[side] = {
+            ...failed(`실행 실패: ${err.message}`),
+            executionTime: Date.now() - startTime
+          };
+          finish();
+        });
+      };
+      wire('solution', solutionProc, interactorProc);
+      wire('interactor', interactorProc, solutionProc);
+    });
+  }
+
   async runTests(
     filePath: string,
     language: SupportedLanguage,
     testCases: TestCase[],
     onProgress?: (current: number, total: number) => void,
-    timeLimitMs?: number
+    options: RunTestsOptions = {}
   ): Promise<TestResult[]> {
     const results: TestResult[] = [];
+    const { timeLimitMs, memoryLimitKb, checker, interactorPath } = options;
+    const enforceMemoryLimit = vscode.workspace
+      .getConfiguration('bojmate')
+      .get<boolean>('enforceMemoryLimit', false);
+    // 새니타이저는 시작 시 큰 가상 메모리를 예약하므로 주소 공간 제한과 함께 쓸 수 없음
+    const usesSanitizer = resolveLanguageCommands(language).compileArgs?.some((arg) => arg.startsWith('-fsanitize'));
+    const memoryCapKb = enforceMemoryLimit && memoryLimitKb && !usesSanitizer &&
+      !ADDRESS_SPACE_CAP_UNSUPPORTED.includes(language)
+      ? memoryLimitKb
+      : undefined;
 
     // 먼저 컴파일 (필요한 경우)
     const compileResult = await this.compile(filePath, language);
     if (!compileResult.success) {
       return testCases.map((tc, i) => ({
-        testCaseIndex: i,
-        input: tc.input,
-        expected: tc.output,
+        ...this.describeTestCase(tc, i),
         actual: '',
         passed: false,
         executionTime: 0,
@@ -189,26 +439,79 @@ export class CodeRunner {
       }));
     }
 
+    // 인터랙터 준비 (인터랙티브 모드)
+    let preparedInteractor: PreparedProgram | undefined;
+    if (interactorPath) {
+      const prepared = await this.prepareInteractor(interactorPath);
+      if ('error' in prepared) {
+        return testCases.map((tc, i) => ({
+          ...this.describeTestCase(tc, i),
+          actual: '',
+          passed: false,
+          executionTime: 0,
+          error: prepared.error
+        }));
+      }
+      preparedInteractor = prepared;
+    }
+
+    // 사용자 체커 준비 (필요한 경우)
+    let preparedChecker: PreparedProgram | undefined;
+    if (checker?.type === 'custom' && !preparedInteractor) {
+      const prepared = await this.prepareChecker(checker);
+      if ('error' in prepared) {
+        return testCases.map((tc, i) => ({
+          ...this.describeTestCase(tc, i),
+          actual: '',
+          passed: false,
+          executionTime: 0,
+          error: prepared.error
+        }));
+      }
+      preparedChecker = prepared;
+    }
+
     // 테스트 케이스 실행
     for (let i = 0; i < testCases.length; i++) {
       const tc = testCases[i];
       onProgress?.(i + 1, testCases.length);
 
+      if (preparedInteractor) {
+        const solution = { filePath, language, outputPath: compileResult.outputPath };
+        results.push(await this.runInteractiveCase(solution, preparedInteractor, tc, i, timeLimitMs));
+        continue;
+      }
+
       const execResult = await this.execute(
         filePath,
         language,
         tc.input,
         compileResult.outputPath,
-        timeLimitMs
+        { timeLimitMs, memoryCapKb }
       );
 
-      const expected = normalizeOutput(tc.output);
-      const actual = normalizeOutput(execResult.stdout);
-      const passed = expected === actual && !execResult.timeout && execResult.exitCode === 0;
+      // 측정값이 제한을 넘었거나, 주소 공간 제한 때문에 할당에 실패한 경우
+      const memoryExceeded = !execResult.timeout && (
+        (memoryLimitKb !== undefined && (execResult.memoryKb ?? 0) > memoryLimitKb) ||
+        (memoryCapKb !== undefined && execResult.exitCode !== 0 && OUT_OF_MEMORY_PATTERN.test(execResult.stderr))
+      );
+
+      const executedOk = !execResult.timeout && !memoryExceeded && execResult.exitCode === 0;
+      let checkResult: CheckResult = { passed: false };
+      if (executedOk && tc.outputOnly) {
+        checkResult = { passed: true };
+      } else if (executedOk) {
+        checkResult = preparedChecker
+          ? await this.runChecker(preparedChecker, tc.input, tc.output, execResult.stdout)
+          : compareOutput(tc.output, execResult.stdout, checker);
+      }
+      const passed = executedOk && checkResult.passed;
 
       let error: string | undefined;
       if (execResult.timeout) {
         error = '시간 초과';
+      } else if (memoryExceeded) {
+        error = execResult.stderr ? `메모리 초과\n${execResult.stderr}` : '메모리 초과';
       } else if (execResult.stderr) {
         error = execResult.stderr;
       } else if (execResult.exitCode !== 0) {
@@ -216,39 +519,202 @@ export class CodeRunner {
       }
 
       results.push({
-        testCaseIndex: i,
-        input: tc.input,
-        expected: tc.output,
+        ...this.describeTestCase(tc, i),
         actual: execResult.stdout,
         passed,
         executionTime: execResult.executionTime,
-        error
+        memoryKb: execResult.memoryKb,
+        error,
+        checkerMessage: checkResult.message
       });
     }
 
     // 컴파일된 파일 정리
-    if (compileResult.outputPath && fs.existsSync(compileResult.outputPath)) {
+    this.cleanup(compileResult.outputPath);
+    this.cleanup(preparedChecker?.outputPath);
+    this.cleanup(preparedInteractor?.outputPath);
+
+    this.diagnostics?.reportRuntime(filePath, results);
+
+    return results;
+  }
+
+  private async runInteractiveCase(
+    solution: PreparedProgram,
+    interactor: PreparedProgram,
+    tc: TestCase,
+    index: number,
+    timeLimitMs?: number
+  ): Promise<TestResult> {
+    const result = await this.executeInteractive(solution, interactor, tc.input, timeLimitMs);
+
+    // 인터랙터가 먼저 거부하면 풀이는 EOF로 죽을 수 있으므로 인터랙터 판정을 우선한다
+    let error: string | undefined;
+    if (result.timeout) {
+      error = '시간 초과';
+    } else if (result.interactor.exitCode === null) {
+      error = `인터랙터 ${result.interactor.stderr || '비정상 종료'}`;
+    } else if (result.interactor.exitCode !== 0) {
+      error = undefined;
+    } else if (result.solution.exitCode !== 0) {
+      error = result.solution.stderr || `런타임 에러 (exit code: ${result.solution.exitCode})`;
+    } else if (result.solution.stderr) {
+      error = result.solution.stderr;
+    }
+
+    const passed = !result.timeout && result.solution.exitCode === 0 && result.interactor.exitCode === 0;
+    return {
+      ...this.describeTestCase(tc, index),
+      actual: result.solution.stdout,
+      passed,
+      executionTime: result.executionTime,
+      error,
+      // 인터랙터의 stderr를 채점 메시지로 사용
+      checkerMessage: result.interactor.stderr || (passed ? undefined : `인터랙터 종료 코드: ${result.interactor.exitCode}`),
+      interactive: true,
+      transcript: result.transcript
+    };
+  }
+
+  private describeTestCase(tc: TestCase, index: number): Pick<
+    TestResult, 'testCaseIndex' | 'input' | 'expected' | 'source' | 'label' | 'key' | 'outputOnly'
+  > {
+    return {
+      testCaseIndex: index,
+      input: tc.input,
+      expected: tc.output,
+      source: tc.source,
+      label: tc.label,
+      key: tc.key,
+      outputOnly: tc.outputOnly
+    };
+  }
+
+  async prepareChecker(
+    checker: CheckerConfig,
+    options: { isolate?: boolean } = {}
+  ): Promise<PreparedProgram | { error: string }> {
+    if (!checker.checkerPath || !fs.existsSync(checker.checkerPath)) {
+      return { error: '체커 파일을 찾을 수 없습니다. 채점 방식을 다시 선택해주세요.' };
+    }
+    return this.prepareProgram(checker.checkerPath, '체커', options);
+  }
+
+  async prepareInteractor(interactorPath: string): Promise<PreparedProgram | { error: string }> {
+    if (!fs.existsSync(interactorPath)) {
+      return { error: '인터랙터 파일을 찾을 수 없습니다. 인터랙티브 모드 설정에서 다시 선택해주세요.' };
+    }
+    return this.prepareProgram(interactorPath, '인터랙터');
+  }
+
+  /**
+   * 보조 프로그램(체커, 인터랙터, 생성기, 정답 코드 등) 언어 확인 + 컴파일
+   * isolate면 소스를 임시 폴더에 복사해 컴파일한다. Java는 같은 폴더의 프로그램이 모두
+   * Main.class로 컴파일되므로, 한 폴더의 여러 프로그램을 함께 실행할 때 필요하다.
+   * 다 쓰면 disposeProgram()으로 정리한다.
+   */
+  async prepareProgram(
+    filePath: string,
+    role: string,
+    options: { isolate?: boolean } = {}
+  ): Promise<PreparedProgram | { error: string }> {
+    const language = detectLanguage(filePath);
+    if (!language) {
+      return { error: `지원하지 않는 ${role} 언어입니다: ${path.basename(filePath)}` };
+    }
+
+    let workDir: string | undefined;
+    if (options.isolate) {
       try {
-        fs.unlinkSync(compileResult.outputPath);
-      } catch {
-        // 정리 실패는 무시
+        filePath = this.validateFilePath(filePath);
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bojmate-program-'));
+        this.isolatedDirs.add(workDir);
+        const copyPath = path.join(workDir, path.basename(filePath));
+        fs.copyFileSync(filePath, copyPath);
+        filePath = copyPath;
+      } catch (e) {
+        this.disposeProgram({ filePath, language, workDir });
+        return { error: `${role} 준비 실패: ${(e as Error).message}` };
       }
     }
 
-    return results;
+    const compileResult = await this.compile(filePath, language);
+    if (!compileResult.success) {
+      this.disposeProgram({ filePath, language, workDir });
+      return { error: `${role} 컴파일 실패:\n${compileResult.error}` };
+    }
+
+    return { filePath, language, outputPath: compileResult.outputPath, workDir };
   }
-}
 
-function normalizeOutput(output: string): string {
-  return output
-    .split('\n')
-    .map((line) => line.trimEnd())
-    .join('\n')
-    .trim();
+  /**
+   * prepareProgram으로 만든 컴파일 결과와 임시 폴더 정리
+   */
+  disposeProgram(program?: PreparedProgram): void {
+    this.cleanup(program?.outputPath);
+    if (program?.workDir) {
+      fs.rmSync(program.workDir, { recursive: true, force: true });
+      this.isolatedDirs.delete(program.workDir);
+    }
+  }
+
+  /**
+   * testlib 스타일 체커 실행: checker <input> <expected> <actual>
+   * 종료 코드 0이면 정답으로 처리
+   */
+  async runChecker(
+    checker: PreparedProgram,
+    input: string,
+    expected: string,
+    actual: string
+  ): Promise<CheckResult> {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bojmate-checker-'));
+    try {
+      const inputPath = path.join(tempDir, 'input.txt');
+      const expectedPath = path.join(tempDir, 'expected.txt');
+      const actualPath = path.join(tempDir, 'actual.txt');
+      fs.writeFileSync(inputPath, input, 'utf-8');
+      fs.writeFileSync(expectedPath, expected, 'utf-8');
+      fs.writeFileSync(actualPath, actual, 'utf-8');
+
+      const result = await this.execute(
+        checker.filePath,
+        checker.language,
+        '',
+        checker.outputPath,
+        { timeLimitMs: this.defaultTimeoutMs, extraArgs: [inputPath, expectedPath, actualPath] }
+      );
+
+      const message = (result.stderr || result.stdout).trim() || undefined;
+      if (result.timeout) {
+        return { passed: false, message: '체커 시간 초과' };
+      }
+      return { passed: result.exitCode === 0, message };
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  cleanup(outputPath?: string): void {
+    if (outputPath && fs.existsSync(outputPath)) {
+      try {
+        fs.unlinkSync(outputPath);
+      } catch {
+        // 정리 실패는 무시
+      }
+    }
+  }
 }
 
 export function detectLanguage(filePath: string): SupportedLanguage | undefined {
   const ext = path.extname(filePath).toLowerCase();
+
+  // .py는 CPython/PyPy3 중 설정된 런타임 사용
+  if (ext === LANGUAGE_CONFIG.py.extension) {
+    const runtime = vscode.workspace.getConfiguration('bojmate').get<string>('pythonRuntime', 'python3');
+    return runtime === 'pypy3' ? 'pypy' : 'py';
+  }
+
   for (const [lang, config] of Object.entries(LANGUAGE_CONFIG)) {
     if (config.extension === ext) {
       return lang as SupportedLanguage;
@@ -256,3 +722,31 @@ export function detectLanguage(filePath: string): SupportedLanguage | undefined
   }
   return undefined;
 }
+
+/**
+ * 워크스페이스 폴더 안의 경로인지 확인 (CodeRunner는 워크스페이스 밖의 파일을 실행하지 않는다)
+ * 체커, 인터랙터 등 보조 프로그램을 고를 때 미리 확인하는 데 사용
+ */
+export function isInsideWorkspace(filePath: string): boolean {
+  const resolved = path.resolve(filePath);
+  return (vscode.workspace.workspaceFolders || []).some(
+    folder => resolved.startsWith(folder.uri.fsPath + path.sep) || resolved === folder.uri.fsPath
+  );
+}
+
+/**
+ * /proc/<pid>/status에서 최대 RSS(VmHWM, KB)를 읽는다. 읽을 수 없으면 undefined
+ */
+function readPeakMemoryKb(pid: number): number | undefined {
+  try {
+    const status = fs.readFileSync(`/proc/${pid}/status`, 'utf-8');
+    const match = status.match(/^VmHWM:\s+(\d+)\s+kB/m);
+    return match ? parseInt(match[1]) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function formatMemory(kb: number): string {
+  return kb >= 1024 ? `${(kb / 1024).toFixed(1)}MB` : `${kb}KB`;
+}
@@ -0,0 +1,211 @@
+import * as path from 'path';
+
+export type DiagnosticLevel = 'error' | 'warning' | 'info';
+
+export interface SourceDiagnostic {
+  file: string; // 절대 경로
+  line: number; // 1부터 시작
+  column: number; // 1부터 시작
+  level: DiagnosticLevel;
+  message: string;
+}
+
+// file:line[:col]: error: message (gcc, clang, swiftc, kotlinc, javac)
+const GCC_PATTERN = /^(.+?):(\d+):(?:(\d+):)?\s*(fatal error|error|warning|note):\s*(.*)$/;
+// file(line,col): error CS0103: message (mcs, csc)
+const MSBUILD_PATTERN = /^(.+?)\((\d+),(\d+)\):\s*(error|warning)\s*(?:\w+)?:\s*(.*)$/;
+// ./file.go:line:col: message
+const GO_PATTERN = /^(.+?\.go):(\d+):(\d+):\s*(.*)$/;
+// error[E0425]: message  /  --> file:line:col (rustc)
+const RUST_HEADER_PATTERN = /^(error|warning)(?:\[\w+\])?:\s*(.*)$/;
+const RUST_LOCATION_PATTERN = /^\s*-->\s*(.+?):(\d+):(\d+)\s*$/;
+
+/**
+ * 컴파일러 출력에서 파일/줄/열/메시지 추출
+ * 상대 경로는 baseDir 기준으로 해석한다.
+ */
+export function parseCompilerOutput(output: string, baseDir: string): SourceDiagnostic[] {
+  const lines = output.replace(/\r\n/g, '\n').split('\n');
+  const diagnostics: SourceDiagnostic[] = [];
+  let rustHeader: { level: DiagnosticLevel; message: string } | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const rustLocation = line.match(RUST_LOCATION_PATTERN);
+    if (rustLocation && rustHeader) {
+      diagnostics.push({
+        file: resolveFile(rustLocation[1], baseDir),
+        line: parseInt(rustLocation[2]),
+        column: parseInt(rustLocation[3]),
+        ...rustHeader
+      });
+      rustHeader = undefined;
+      continue;
+    }
+
+    const rust = line.match(RUST_HEADER_PATTERN);
+    if (rust) {
+      rustHeader = { level: toLevel(rust[1]), message: rust[2] };
+      continue;
+    }
+
+    const gcc = line.match(GCC_PATTERN);
+    if (gcc) {
+      diagnostics.push({
+        file: resolveFile(gcc[1], baseDir),
+        line: parseInt(gcc[2]),
+        // javac는 열 번호 대신 다음 줄들에 ^ 표시
+        column: gcc[3] ? parseInt(gcc[3]) : findCaretColumn(lines, i + 1) ?? 1,
+        level: toLevel(gcc[4]),
+        message: gcc[5]
+      });
+      continue;
+    }
+
+    const msbuild = line.match(MSBUILD_PATTERN);
+    if (msbuild) {
+      diagnostics.push({
+        file: resolveFile(msbuild[1], baseDir),
+        line: parseInt(msbuild[2]),
+        column: parseInt(msbuild[3]),
+        level: toLevel(msbuild[4]),
+        message: msbuild[5]
+      });
+      continue;
+    }
+
+    const go = line.match(GO_PATTERN);
+    if (go) {
+      diagnostics.push({
+        file: resolveFile(go[1], baseDir),
+        line: parseInt(go[2]),
+        column: parseInt(go[3]),
+        level: 'error',
+        message: go[4]
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+// Python: File "/path/a.py", line 3, in <module>
+const PYTHON_FRAME_PATTERN = /^\s*File "(.+?)", line (\d+)/;
+// Java: at Main.main(Main.java:5)
+const JAVA_FRAME_PATTERN = /^\s*at\s+[\w$.<>/]+\(([\w$]+\.(?:java|kt)):(\d+)\)/;
+// Node: at fn (/path/a.js:3:7) 또는 at /path/a.js:3:7
+const NODE_FRAME_PATTERN = /^\s*at\s+(?:.*?\()?((?:\/|[A-Za-z]:\\).+?\.js):(\d+):(\d+)\)?\s*$/;
+// AddressSanitizer: #0 0x55d1 in main /path/a.cpp:5:3
+const SANITIZER_FRAME_PATTERN = /^\s*#\d+\s+0x[0-9a-f]+\s+in\s+.+?\s+((?:\/|[A-Za-z]:\\)\S+?):(\d+)(?::(\d+))?\s*$/;
+// UBSan: /path/a.cpp:5:10: runtime error: signed integer overflow
+const UBSAN_PATTERN = /^(.+?):(\d+):(\d+):\s*runtime error:\s*(.*)$/;
+
+/**
+ * 런타임 에러 출력(Python/Java/Node 스택 트레이스, 새니타이저)에서 위치 추출
+ * 가장 안쪽(에러가 난) 위치가 첫 번째, 나머지 호출 스택은 info로 뒤에 온다.
+ * readSourceLine이 있으면 Python ^ 표시의 열 번호를 원본 줄의 들여쓰기만큼 보정한다.
+ */
+export function parseRuntimeTrace(
+  stderr: string,
+  baseDir: string,
+  readSourceLine?: (file: string, line: number) => string | undefined
+): SourceDiagnostic[] {
+  const lines = stderr.replace(/\r\n/g, '\n').split('\n');
+  const frames: { file: string; line: number; column: number }[] = [];
+  let innermostLast = false;
+  let message = lines.find((l) => l.trim().length > 0)?.trim() || '런타임 에러';
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const python = line.match(PYTHON_FRAME_PATTERN);
+    if (python) {
+      // Python은 가장 최근 호출이 마지막
+      innermostLast = true;
+      const file = resolveFile(python[1], baseDir);
+      const lineNumber = parseInt(python[2]);
+      // SyntaxError는 소스 줄 다음에 ^ 표시 (들여쓰기를 지운 줄 기준)
+      const caret = findCaretColumn(lines, i + 1, true);
+      const indent = caret !== undefined ? (readSourceLine?.(file, lineNumber) ?? '').search(/[^ \t\f]|$/) : 0;
+      frames.push({ file, line: lineNumber, column: (caret ?? 1) + indent });
+      continue;
+    }
+
+    const ubsan = line.match(UBSAN_PATTERN);
+    if (ubsan) {
+      message = `runtime error: ${ubsan[4]}`;
+      frames.push({ file: resolveFile(ubsan[1], baseDir), line: parseInt(ubsan[2]), column: parseInt(ubsan[3]) });
+      continue;
+    }
+
+    const frame = line.match(JAVA_FRAME_PATTERN) || line.match(NODE_FRAME_PATTERN) || line.match(SANITIZER_FRAME_PATTERN);
+    if (frame) {
+      frames.push({
+        file: resolveFile(frame[1], baseDir),
+        line: parseInt(frame[2]),
+        column: frame[3] ? parseInt(frame[3]) : 1
+      });
+    }
+  }
+
+  if (frames.length === 0) {
+    return [];
+  }
+
+  message = findExceptionMessage(lines, innermostLast) || message;
+  if (innermostLast) {
+    frames.reverse();
+  }
+
+  return frames.map((frame, i) => ({ ...frame, level: i === 0 ? 'error' : 'info', message }));
+}
+
+function findExceptionMessage(lines: string[], pythonStyle: boolean): string | undefined {
+  if (pythonStyle) {
+    // 트레이스백 마지막의 들여쓰기 없는 줄 (예: NameError: name 'x' is not defined)
+    for (let i = lines.length - 1; i >= 0; i--) {
+      if (lines[i].trim() && !/^\s/.test(lines[i])) {
+        return lines[i].trim();
+      }
+    }
+    return undefined;
+  }
+
+  const java = lines.find((l) => l.startsWith('Exception in thread'));
+  if (java) {
+    return java.replace(/^Exception in thread "[^"]*"\s*/, '');
+  }
+  const sanitizer = lines.find((l) => /^==\d+==ERROR:/.test(l));
+  if (sanitizer) {
+    return sanitizer.replace(/^==\d+==ERROR:\s*/, '');
+  }
+  // Node: ReferenceError: x is not defined
+  return lines.find((l) => /^[A-Z]\w*(Error|Exception)\b/.test(l))?.trim();
+}
+
+/**
+ * 소스 줄 아래의 ^ 표시로 열 번호 계산 (표시가 없으면 undefined)
+ * javac는 소스 줄을 그대로 출력하고, Python은 들여쓰기를 지운 뒤 4칸 들여 출력한다.
+ * Python의 경우 들여쓰기를 지운 줄 기준의 열 번호를 돌려준다.
+ */
+function findCaretColumn(lines: string[], start: number, reindented = false): number | undefined {
+  for (let i = start; i < Math.min(start + 3, lines.length); i++) {
+    if (/^\s*\^+\s*$/.test(lines[i])) {
+      const offset = reindented ? (lines[i - 1] ?? '').search(/\S|$/) : 0;
+      return Math.max(1, lines[i].indexOf('^') - offset + 1);
+    }
+  }
+  return undefined;
+}
+
+function resolveFile(file: string, baseDir: string): string {
+  return path.isAbsolute(file) ? path.normalize(file) : path.resolve(baseDir, file);
+}
+
+function toLevel(severity: string): DiagnosticLevel {
+  if (severity.includes('error')) {
+    return 'error';
+  }
+  return severity === 'warning' ? 'warning' : 'info';
+}
@@ -0,0 +1,143 @@
+export interface EdgeCase {
+  name: string;
+  input: string;
+}
+
+export interface InputConstraint {
+  names: string[]; // 제약이 걸린 변수 (예: ['N', 'M'])
+  min: number;
+  max: number;
+}
+
+const SUPERSCRIPT_DIGITS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9', '⁻': '-'
+};
+
+// 숫자 표현: 100,000 / 10^9 / 2×10^5 / -10^18
+const NUMBER = String.raw`-?\s*\d[\d,]*(?:\.\d+)?(?:\s*[×x*]\s*10\^-?\d+)?(?:\^-?\d+)?`;
+const VARIABLE = String.raw`[A-Za-z][A-Za-z0-9_]*(?:\[[^\]]*\])?`;
+const LESS = String.raw`(≤|<=|≦|<)`;
+const CONSTRAINT_PATTERN = new RegExp(
+  `(${NUMBER})\\s*${LESS}\\s*(${VARIABLE}(?:\\s*,\\s*${VARIABLE})*)\\s*${LESS}\\s*(${NUMBER})`,
+  'g'
+);
+const INTEGER_TOKEN = /^-?\d+$/;
+
+/**
+ * AI 응답에서 엣지 케이스 추출
+ * 형식: "### 케이스 N: 설명" 다음 줄에 ```input 코드 블록
+ */
+export function parseEdgeCases(text: string): EdgeCase[] {
+  const pattern = /^#{1,6}\s*케이스\s*\d+\s*[:.]?\s*(.*)\r?\n+```input[^\S\r\n]*\r?\n([\s\S]*?)```/gm;
+  const cases: EdgeCase[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const input = match[2].replace(/\r\n/g, '\n');
+    if (!input.trim()) {
+      continue;
+    }
+    cases.push({
+      name: match[1].trim() || `케이스 ${cases.length + 1}`,
+      input: input.endsWith('\n') ? input : input + '\n'
+    });
+  }
+  return cases;
+}
+
+/**
+ * 문제 입력 설명(HTML)에서 "1 ≤ N, M ≤ 100,000" 형태의 정수 제약 추출
+ * 미만/초과(<)는 정수 기준으로 1씩 좁힌다.
+ */
+export function parseInputConstraints(html: string): InputConstraint[] {
+  const text = html
+    .replace(/<sup>\s*([^<]*?)\s*<\/sup>/gi, '^$1')
+    .replace(/<sub>\s*([^<]*?)\s*<\/sub>/gi, '_$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&le;/g, '≤')
+    .replace(/&ge;/g, '≥')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/−/g, '-')
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁻]+/g, (digits) => '^' + [...digits].map((d) => SUPERSCRIPT_DIGITS[d]).join(''));
+
+  const constraints: InputConstraint[] = [];
+  for (const match of text.matchAll(CONSTRAINT_PATTERN)) {
+    let min = parseNumber(match[1]);
+    let max = parseNumber(match[5]);
+    if (Number.isNaN(min) || Number.isNaN(max)) {
+      continue;
+    }
+    if (match[2] === '<') {
+      min += 1;
+    }
+    if (match[4] === '<') {
+      max -= 1;
+    }
+    constraints.push({ names: match[3].split(',').map((name) => name.trim()), min, max });
+  }
+  return constraints;
+}
+
+function parseNumber(text: string): number {
+  const value = text.replace(/[\s,]/g, '');
+  const scientific = value.match(/^(-?[\d.]+)[×x*]10\^(-?\d+)$/);
+  if (scientific) {
+    return parseFloat(scientific[1]) * Math.pow(10, parseInt(scientific[2]));
+  }
+  const power = value.match(/^(-?)([\d.]+)\^(-?\d+)$/);
+  if (power) {
+    return (power[1] ? -1 : 1) * Math.pow(parseFloat(power[2]), parseInt(power[3]));
+  }
+  return parseFloat(value);
+}
+
+/**
+ * 예제 입력과 제약 조건으로 확인할 수 있는 만큼 입력 검증 (문제점 목록, 없으면 통과)
+ * - 예제가 모두 정수로만 이뤄져 있으면 정수가 아닌 토큰을 거른다
+ * - 예제의 첫 줄 토큰 수가 모두 같으면 첫 줄 토큰 수를 맞춘다
+ * - 정수 값은 제약 조건과 예제에 나온 값의 전체 범위를 벗어나면 안 된다
+ *   (어떤 변수의 값인지는 알 수 없으므로 변수별 범위는 확인하지 않는다)
+ */
+export function validateEdgeCase(input: string, samples: string[], constraints: InputConstraint[]): string[] {
+  const problems: string[] = [];
+  const tokens = input.split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) {
+    return ['입력이 비어 있습니다'];
+  }
+
+  const sampleTokens = samples.map((sample) => sample.split(/\s+/).filter(Boolean));
+  const integerOnly = sampleTokens.length > 0 && sampleTokens.every((st) => st.every((t) => INTEGER_TOKEN.test(t)));
+
+  const firstLineCounts = new Set(samples.map((sample) => sample.trim().split('\n')[0].trim().split(/\s+/).length));
+  if (firstLineCounts.size === 1) {
+    const [expected] = firstLineCounts;
+    const actual = input.trim().split('\n')[0].trim().split(/\s+/).length;
+    if (actual !== expected) {
+      problems.push(`첫 줄의 값 개수가 예제와 다릅니다 (${actual}개, 예제 ${expected}개)`);
+    }
+  }
+
+  if (!integerOnly) {
+    return problems;
+  }
+
+  const nonInteger = tokens.find((t) => !INTEGER_TOKEN.test(t));
+  if (nonInteger) {
+    problems.push(`정수가 아닌 값이 있습니다: ${nonInteger}`);
+  }
+
+  if (constraints.length > 0) {
+    // 예제가 클 수 있으므로 spread 대신 reduce
+    const values = [...constraints.flatMap((c) => [c.min, c.max]), ...sampleTokens.flat().map(Number)];
+    const min = values.reduce((a, b) => Math.min(a, b));
+    const max = values.reduce((a, b) => Math.max(a, b));
+    const outOfRange = tokens.find((t) => INTEGER_TOKEN.test(t) && (Number(t) < min || Number(t) > max));
+    if (outOfRange) {
+      problems.push(`제약 범위(${min} ~ ${max})를 벗어난 값이 있습니다: ${outOfRange}`);
+    }
+  }
+
+  return problems;
+}
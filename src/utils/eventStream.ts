@@ -0,0 +1,61 @@
+export interface EventStreamMessage {
+  headers: Record<string, string>; // 문자열 헤더만 (:event-type, :message-type 등)
+  payload: Buffer;
+}
+
+// 헤더 값 타입별 고정 길이 (6: 바이트 배열, 7: 문자열은 길이 접두사가 있음)
+const FIXED_HEADER_SIZES: Record<number, number> = { 0: 0, 1: 0, 2: 1, 3: 2, 4: 4, 5: 8, 8: 8, 9: 16 };
+
+/**
+ * AWS event stream (application/vnd.amazon.eventstream) 디코더
+ * Bedrock converse-stream 응답처럼 길이 접두사가 붙은 바이너리 메시지를 청크 경계와 상관없이 나눈다.
+ * CRC는 검증하지 않는다.
+ */
+export class EventStreamDecoder {
+  private buffer = Buffer.alloc(0);
+
+  push(chunk: Buffer): EventStreamMessage[] {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    const messages: EventStreamMessage[] = [];
+
+    while (this.buffer.length >= 12) {
+      const totalLength = this.buffer.readUInt32BE(0);
+      if (totalLength < 16) {
+        throw new Error(`잘못된 event stream 메시지 길이: ${totalLength}`);
+      }
+      if (this.buffer.length < totalLength) {
+        break;
+      }
+      const headersLength = this.buffer.readUInt32BE(4);
+      const headers = this.readHeaders(this.buffer.subarray(12, 12 + headersLength));
+      const payload = this.buffer.subarray(12 + headersLength, totalLength - 4);
+      messages.push({ headers, payload: Buffer.from(payload) });
+      this.buffer = this.buffer.subarray(totalLength);
+    }
+    return messages;
+  }
+
+  private readHeaders(data: Buffer): Record<string, string> {
+    const headers: Record<string, string> = {};
+    let offset = 0;
+    while (offset < data.length) {
+      const nameLength = data.readUInt8(offset);
+      const name = data.toString('utf-8', offset + 1, offset + 1 + nameLength);
+      const type = data.readUInt8(offset + 1 + nameLength);
+      offset += 2 + nameLength;
+
+      if (type === 6 || type === 7) {
+        const valueLength = data.readUInt16BE(offset);
+        if (type === 7) {
+          headers[name] = data.toString('utf-8', offset + 2, offset + 2 + valueLength);
+        }
+        offset += 2 + valueLength;
+      } else if (type in FIXED_HEADER_SIZES) {
+        offset += FIXED_HEADER_SIZES[type];
+      } else {
+        throw new Error(`알 수 없는 event stream 헤더 타입: ${type}`);
+      }
+    }
+    return headers;
+  }
+}
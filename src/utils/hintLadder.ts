@@ -0,0 +1,45 @@
+import { HintLevel, HintUsage } from '../types';
+
+// 사다리 모드에서 힌트가 열리는 순서
+export const HINT_LADDER: HintLevel[] = ['algorithm', 'stepByStep', 'fullSolution'];
+
+export const HINT_LEVEL_LABELS: Record<HintLevel, string> = {
+  algorithm: '알고리즘 분류',
+  stepByStep: '단계별 힌트',
+  fullSolution: '전체 풀이'
+};
+
+export interface HintLadderState {
+  unlocked: HintLevel[]; // 이미 받은 단계 (그 아래 단계 포함)
+  next?: HintLevel; // 다음에 열 수 있는 단계 (모두 열었으면 없음)
+  waitMs: number; // 다음 단계가 열리기까지 남은 타이머 시간
+}
+
+/**
+ * 힌트 사용 기록과 타이머 경과 시간으로 사다리 상태 계산
+ * 단계 사이에는 직전 단계를 받은 시점부터 타이머 기준 minIntervalMs가 지나야 한다.
+ */
+export function getHintLadderState(hints: HintUsage[], elapsed: number, minIntervalMs: number): HintLadderState {
+  const used = hints.filter((hint) => hint.level !== 'question');
+  const highest = Math.max(-1, ...used.map((hint) => HINT_LADDER.indexOf(hint.level as HintLevel)));
+  // 가장 높은 단계를 처음 받은 시점부터 잰다 (아래 단계를 다시 받아도 늘어나지 않음)
+  const reached = used.find((hint) => hint.level === HINT_LADDER[highest]);
+
+  return {
+    unlocked: HINT_LADDER.slice(0, highest + 1),
+    next: HINT_LADDER[highest + 1],
+    waitMs: reached ? Math.max(0, reached.elapsed + minIntervalMs - elapsed) : 0
+  };
+}
+
+/**
+ * 풀이 기록에 남은 힌트 단계 요약 (예: "알고리즘 분류, 단계별 힌트")
+ */
+export function formatHintUsage(hints: HintUsage[]): string {
+  const levels = HINT_LADDER.filter((level) => hints.some((hint) => hint.level === level));
+  const labels = levels.map((level) => HINT_LEVEL_LABELS[level]);
+  if (hints.some((hint) => hint.level === 'question')) {
+    labels.push('질문');
+  }
+  return labels.join(', ');
+}
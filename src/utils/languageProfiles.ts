@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { SupportedLanguage, LANGUAGE_CONFIG } from '../types';
+
+export interface LanguageCommandOverride {
+  compileArgs?: string[];
+  runArgs?: string[];
+}
+
+interface LanguageSettings extends LanguageCommandOverride {
+  profiles?: Record<string, LanguageCommandOverride>;
+}
+
+export interface ResolvedLanguageCommands {
+  compileArgs?: string[];
+  runArgs: string[];
+  profile: string;
+}
+
+// 기본 프로필: 채점 서버와 같은 옵션 (LANGUAGE_CONFIG + bojmate.languages 최상위 설정)
+export const DEFAULT_PROFILE = 'judge-like';
+
+// 설정 없이도 쓸 수 있는 내장 프로필
+export const BUILTIN_PROFILES: Record<string, Partial<Record<SupportedLanguage, LanguageCommandOverride>>> = {
+  debug: {
+    cpp: {
+      compileArgs: ['g++', '-std=c++17', '-g', '-O0', '-DLOCAL', '-fsanitize=address,undefined', '-o', '{output}', '{file}']
+    },
+    c: {
+      compileArgs: ['gcc', '-std=c11', '-g', '-O0', '-DLOCAL', '-fsanitize=address,undefined', '-o', '{output}', '{file}', '-lm']
+    },
+    rs: {
+      compileArgs: ['rustc', '-g', '--cfg', 'local', '-o', '{output}', '{file}']
+    },
+    swift: {
+      compileArgs: ['swiftc', '-Onone', '-g', '-D', 'LOCAL', '-o', '{output}', '{file}']
+    }
+  }
+};
+
+export function getActiveProfile(): string {
+  return vscode.workspace.getConfiguration('bojmate').get<string>('languageProfile', DEFAULT_PROFILE) || DEFAULT_PROFILE;
+}
+
+/**
+ * 사용 가능한 프로필 이름 (기본 + 내장 + bojmate.languages에 정의된 프로필)
+ */
+export function listProfiles(): string[] {
+  const names = new Set<string>([DEFAULT_PROFILE, ...Object.keys(BUILTIN_PROFILES)]);
+  for (const settings of Object.values(getLanguageSettings())) {
+    Object.keys(settings?.profiles || {}).forEach((name) => names.add(name));
+  }
+  return [...names];
+}
+
+/**
+ * 현재 프로필 기준 컴파일/실행 명령 결정
+ * 우선순위: 프로필 사용자 설정 > 내장 프로필 > 언어 사용자 설정 > LANGUAGE_CONFIG
+ */
+export function resolveLanguageCommands(language: SupportedLanguage): ResolvedLanguageCommands {
+  const profile = getActiveProfile();
+  const settings = getLanguageSettings()[language];
+  const layers: (LanguageCommandOverride | undefined)[] = [settings];
+  if (profile !== DEFAULT_PROFILE) {
+    layers.push(BUILTIN_PROFILES[profile]?.[language], settings?.profiles?.[profile]);
+  }
+
+  const resolved: ResolvedLanguageCommands = {
+    compileArgs: LANGUAGE_CONFIG[language].compileArgs,
+    runArgs: LANGUAGE_CONFIG[language].runArgs,
+    profile
+  };
+  for (const layer of layers) {
+    if (isArgs(layer?.compileArgs)) {
+      resolved.compileArgs = layer!.compileArgs;
+    }
+    if (isArgs(layer?.runArgs)) {
+      resolved.runArgs = layer!.runArgs!;
+    }
+  }
+  return resolved;
+}
+
+function getLanguageSettings(): Partial<Record<SupportedLanguage, LanguageSettings>> {
+  return vscode.workspace
+    .getConfiguration('bojmate')
+    .get<Partial<Record<SupportedLanguage, LanguageSettings>>>('languages', {}) || {};
+}
+
+// 잘못된 설정(빈 배열, 문자열이 아닌 값)은 무시하고 기본값 사용
+function isArgs(args: unknown): args is string[] {
+  return Array.isArray(args) && args.length > 0 && args.every((arg) => typeof arg === 'string');
+}
@@ -1,5 +1,6 @@
 import * as cheerio from 'cheerio';
-import { Problem, TestCase } from '../types';
+import type { Element } from 'domhandler';
+import { CheckerConfig, Problem, Submission, TestCase } from '../types';
 
 export function parseProblemPage(html: string, problemId: string): Problem {
   const $ = cheerio.load(html);
@@ -42,6 +43,11 @@ export function parseProblemPage(html: string, problemId: string): Problem {
   // 출처 파싱 (있는 경우)
   const source = $('#source a').first().text().trim() || undefined;
 
+  // 인터랙티브 문제는 인터랙터가 채점하므로 채점 방식 감지 생략
+  const interactive = isInteractive($);
+  // 채점 방식 자동 감지 (스페셜 저지 / 실수 오차 허용)
+  const checker = interactive ? undefined : detectChecker($);
+
   return {
     id: problemId,
     title,
@@ -51,7 +57,40 @@ export function parseProblemPage(html: string, problemId: string): Problem {
     testCases,
     timeLimit,
     memoryLimit,
-    source
+    source,
+    checker,
+    interactive
+  };
+}
+
+function isInteractive($: cheerio.CheerioAPI): boolean {
+  return $('.problem-label').text().includes('인터랙티브') || $('.problem-label-interactive').length > 0;
+}
+
+function detectChecker($: cheerio.CheerioAPI): CheckerConfig | undefined {
+  const labels = $('.problem-label').text();
+  const isSpecialJudge = labels.includes('스페셜 저지') || $('.problem-label-spj').length > 0;
+
+  const outputText = $('#problem_output').text();
+  const mentionsAbsolute = /절대\s*(\/\s*상대\s*)?오차/.test(outputText);
+  const mentionsRelative = /상대\s*오차/.test(outputText);
+
+  if (!isSpecialJudge && !mentionsAbsolute && !mentionsRelative) {
+    return undefined;
+  }
+
+  // "10-6" 형태(<sup> 태그가 제거된 텍스트)에서 허용 오차 추출
+  const epsilonMatch = outputText.match(/10\s*\^?\s*[-−]\s*(\d+)/);
+  const epsilon = epsilonMatch ? Math.pow(10, -parseInt(epsilonMatch[1])) : 1e-6;
+
+  // 오차 언급이 없는 스페셜 저지는 절대/상대 오차 모두 허용
+  const useAbsolute = mentionsAbsolute || !mentionsRelative;
+  const useRelative = mentionsRelative || !mentionsAbsolute;
+
+  return {
+    type: 'epsilon',
+    absoluteError: useAbsolute ? epsilon : undefined,
+    relativeError: useRelative ? epsilon : undefined
   };
 }
 
@@ -170,17 +209,125 @@ export function htmlToMarkdown(html: string): string {
     .trim();
 }
 
-export function parseSubmissionResult(html: string): {
+// 채점이 끝나지 않은 상태 (기다리는 중, 채점 준비 중, 컴파일 중, 채점 중)
+const PENDING_RESULT_CLASSES = ['result-wait', 'result-rejudge-wait', 'result-no-judge', 'result-compile', 'result-judging'];
+const PENDING_STATUS_PATTERN = /기다리는 중|준비 중|컴파일 중|채점 중/;
+
+/**
+ * 채점 현황 페이지에서 제출 결과 추출
+ * submissionId를 주면 해당 제출의 행만 읽는다.
+ */
+export function parseSubmissionResult(html: string, submissionId?: string): {
   status: string;
   memory?: string;
   time?: string;
+  progress?: number;
+  pending: boolean;
 } {
   const $ = cheerio.load(html);
 
-  const statusCell = $('td.result');
-  const status = statusCell.find('span.result-text').text().trim();
-  const memory = statusCell.next().text().trim();
-  const time = statusCell.next().next().text().trim();
+  const row = submissionId ? $(`#solution-${submissionId}`) : $('#status-table tbody tr').first();
+  const statusCell = row.length > 0 ? row.find('td.result').first() : $('td.result').first();
+  return readResultCell(statusCell);
+}
+
+function readResultCell(statusCell: cheerio.Cheerio<Element>): {
+  status: string;
+  memory?: string;
+  time?: string;
+  progress?: number;
+  pending: boolean;
+} {
+  const resultText = statusCell.find('span.result-text');
+  const status = resultText.text().trim();
+  const memory = statusCell.next().text().trim() || undefined;
+  const time = statusCell.next().next().text().trim() || undefined;
+
+  // 채점 중 (42%)
+  const progressMatch = status.match(/(\d+)\s*%/);
+  const progress = progressMatch ? parseInt(progressMatch[1]) : undefined;
+  const pending = !status ||
+    PENDING_RESULT_CLASSES.some((cls) => resultText.hasClass(cls)) ||
+    PENDING_STATUS_PATTERN.test(status);
+
+  return { status, memory, time, progress, pending };
+}
 
-  return { status, memory, time };
+export function parseSubmitPage(html: string): {
+  csrfKey?: string;
+  requiresCaptcha: boolean;
+  error?: string;
+} {
+  const $ = cheerio.load(html);
+
+  const csrfKey = $('input[name="csrf_key"]').attr('value') || undefined;
+  const requiresCaptcha = $('.g-recaptcha, [data-sitekey]').length > 0;
+  const error = $('.alert-danger, .error-v1-box').first().text().trim() || undefined;
+
+  return { csrfKey, requiresCaptcha, error };
+}
+
+/**
+ * 채점 현황 페이지의 제출 목록 추출
+ * 열 순서: 제출 번호, 아이디, 문제, 결과, 메모리, 시간, 언어, 코드 길이, 제출한 시간
+ */
+export function parseSubmissionList(html: string): Submission[] {
+  const $ = cheerio.load(html);
+  const submissions: Submission[] = [];
+
+  $('#status-table tbody tr').each((_, el) => {
+    const cells = $(el).find('td');
+    const submissionId = cells.eq(0).text().trim();
+    if (!/^\d+$/.test(submissionId)) {
+      return;
+    }
+
+    const { status, memory, time, progress, pending } = readResultCell(cells.eq(3));
+    const submittedAt = cells.eq(8).find('a').attr('title') || cells.eq(8).text().trim();
+    submissions.push({
+      submissionId,
+      username: cells.eq(1).text().trim(),
+      problemId: cells.eq(2).text().trim(),
+      status,
+      memory,
+      time,
+      progress,
+      pending,
+      // 언어 칸에는 "수정" 링크가 함께 있을 수 있음
+      language: cells.eq(6).find('a').first().text().trim() || cells.eq(6).text().split('/')[0].trim(),
+      codeLength: cells.eq(7).text().trim() || undefined,
+      submittedAt: submittedAt || undefined
+    });
+  });
+
+  return submissions;
+}
+
+/**
+ * 소스 코드 페이지(/source/{id})에서 코드 추출
+ */
+export function parseSourcePage(html: string): string | undefined {
+  const $ = cheerio.load(html);
+  const textarea = $('textarea[name="source"]').first();
+  return textarea.length > 0 ? textarea.text() : undefined;
+}
+
+/**
+ * 로그인한 페이지 상단 메뉴에서 사용자 아이디 추출
+ */
+export function parseLoggedInUsername(html: string): string | undefined {
+  const $ = cheerio.load(html);
+  const link = $('.loginbar a.username').first();
+  const username = link.text().trim() || link.attr('href')?.replace(/^\/user\//, '');
+  return username || undefined;
+}
+
+/**
+ * 채점 현황 페이지에서 가장 최근 제출 번호 추출
+ */
+export function parseLatestSubmissionId(html: string): string | undefined {
+  const $ = cheerio.load(html);
+  const row = $('#status-table tbody tr').first();
+  const id = row.attr('id')?.replace('solution-', '') || row.find('td').first().text().trim();
+  return id && /^\d+$/.test(id) ? id : undefined;
 }
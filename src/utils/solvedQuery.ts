@@ -0,0 +1,90 @@
+// 검색 결과의 풀이 상태 필터
+export type SolvedFilter = 'all' | 'unsolved' | 'tried';
+
+// 포함할 태그끼리의 결합 방식
+export type TagMode = 'and' | 'or';
+
+export interface SolvedQueryFilters {
+  text?: string;
+  tierMin?: number;
+  tierMax?: number;
+  tags?: string[];
+  excludedTags?: string[];
+  tagMode?: TagMode;
+  solvedMin?: number; // 맞은 사람 수
+  solvedMax?: number;
+  averageTryMin?: number;
+  averageTryMax?: number;
+  source?: string; // 출처 (from:)
+  classLevel?: number; // solved.ac CLASS
+  classEssentials?: boolean; // CLASS 필수 문제만
+  solvedFilter?: SolvedFilter;
+  lang?: string; // 문제 언어 (lang:ko)
+}
+
+/**
+ * 검색 조건으로 solved.ac 검색 쿼리 생성
+ * handle이 없으면 풀이 상태 필터는 무시한다.
+ */
+export function buildSolvedQuery(filters: SolvedQueryFilters, handle?: string): string {
+  const parts: string[] = [];
+
+  const text = filters.text?.trim();
+  if (text) {
+    // 숫자만이면 문제번호 검색, 아니면 텍스트 검색
+    parts.push(/^\d+$/.test(text) ? `id:${text}` : text);
+  }
+
+  if (filters.tierMin !== undefined || filters.tierMax !== undefined) {
+    parts.push(`tier:${filters.tierMin ?? 0}..${filters.tierMax ?? 30}`);
+  }
+
+  const tags = filters.tags?.filter(Boolean) ?? [];
+  if (tags.length === 1 || (tags.length > 1 && filters.tagMode !== 'or')) {
+    parts.push(...tags.map((tag) => `tag:${tag}`));
+  } else if (tags.length > 1) {
+    parts.push(`(${tags.map((tag) => `tag:${tag}`).join(' | ')})`);
+  }
+  for (const tag of filters.excludedTags?.filter(Boolean) ?? []) {
+    parts.push(`!tag:${tag}`);
+  }
+
+  const solved = formatRange(filters.solvedMin, filters.solvedMax);
+  if (solved) {
+    parts.push(`solved:${solved}`);
+  }
+  const averageTry = formatRange(filters.averageTryMin, filters.averageTryMax);
+  if (averageTry) {
+    parts.push(`average_try:${averageTry}`);
+  }
+
+  const source = filters.source?.trim();
+  if (source) {
+    parts.push(`from:${source.replace(/\s+/g, '_')}`);
+  }
+
+  if (filters.classLevel !== undefined) {
+    parts.push(`${filters.classEssentials ? 'in_class_essentials' : 'in_class'}:${filters.classLevel}`);
+  }
+
+  if (handle && filters.solvedFilter === 'unsolved') {
+    parts.push(`!s@${handle}`);
+  } else if (handle && filters.solvedFilter === 'tried') {
+    parts.push(`t@${handle}`, `!s@${handle}`);
+  }
+
+  if (filters.lang) {
+    parts.push(`lang:${filters.lang}`);
+  }
+
+  parts.push('solvable:true');
+  return parts.join(' ');
+}
+
+// 한쪽만 있으면 열린 범위 (100.., ..2.5)
+function formatRange(min?: number, max?: number): string | undefined {
+  if (min === undefined && max === undefined) {
+    return undefined;
+  }
+  return `${min ?? ''}..${max ?? ''}`;
+}
@@ -0,0 +1,65 @@
+export interface SseEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Server-Sent Events 스트림 파서
+ * 청크가 줄 중간에서 끊겨도 이어 붙여서, 빈 줄로 끝난 완성된 이벤트만 돌려준다.
+ */
+export class SseParser {
+  private buffer = '';
+  private event?: string;
+  private data: string[] = [];
+
+  push(chunk: string): SseEvent[] {
+    this.buffer += chunk;
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() ?? '';
+
+    const events: SseEvent[] = [];
+    for (const line of lines) {
+      const event = this.readLine(line);
+      if (event) {
+        events.push(event);
+      }
+    }
+    return events;
+  }
+
+  /**
+   * 스트림이 끝났을 때 빈 줄 없이 남은 이벤트
+   */
+  flush(): SseEvent[] {
+    const events = [this.buffer && this.readLine(this.buffer), this.readLine('')]
+      .filter((e): e is SseEvent => !!e);
+    this.buffer = '';
+    return events;
+  }
+
+  private readLine(line: string): SseEvent | undefined {
+    if (line === '') {
+      if (this.data.length === 0) {
+        this.event = undefined;
+        return undefined;
+      }
+      const event: SseEvent = { event: this.event, data: this.data.join('\n') };
+      this.event = undefined;
+      this.data = [];
+      return event;
+    }
+    if (line.startsWith(':')) {
+      return undefined; // 주석 (keep-alive)
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'data') {
+      this.data.push(value);
+    } else if (field === 'event') {
+      this.event = value;
+    }
+    return undefined;
+  }
+}
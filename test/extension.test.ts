@@ -1,4 +1,12 @@
 import * as assert from 'assert';
+import { compareOutput, findFirstDifference } from '../src/utils/checker';
+import { parseCompilerOutput, parseRuntimeTrace } from '../src/utils/diagnostics';
+import { parseSubmissionResult } from '../src/utils/parser';
+import { buildSolvedQuery } from '../src/utils/solvedQuery';
+import { SseParser } from '../src/utils/sse';
+import { EventStreamDecoder } from '../src/utils/eventStream';
+import { getHintLadderState } from '../src/utils/hintLadder';
+import { parseEdgeCases, parseInputConstraints, validateEdgeCase } from '../src/utils/edgeCases';
 
 // Basic type tests
 describe('BOJ Mate Extension Tests', () => {
@@ -96,6 +104,22 @@ describe('BOJ Mate Extension Tests', () => {
       const expected = '  hello\n  world';
       assert.strictEqual(normalizeOutput(input), expected);
     });
+
+    it('should read the submission row progress and verdict', () => {
+      const row = (id: string, cls: string, text: string, memory = '', time = '') =>
+        `<tr id="solution-${id}"><td>${id}</td><td class="result"><span class="result-text ${cls}">${text}</span></td>` +
+        `<td class="memory">${memory}</td><td class="time">${time}</td></tr>`;
+      const html = `<table id="status-table"><tbody>${row('2', 'result-judging', '채점 중 (42%)')}` +
+        `${row('1', 'result-ac', '맞았습니다!!', '2020', '4')}</tbody></table>`;
+
+      assert.deepStrictEqual(parseSubmissionResult(html, '2'), {
+        status: '채점 중 (42%)', memory: undefined, time: undefined, progress: 42, pending: true
+      });
+      const done = parseSubmissionResult(html, '1');
+      assert.strictEqual(done.pending, false);
+      assert.strictEqual(done.memory, '2020');
+      assert.strictEqual(done.time, '4');
+    });
   });
 
   describe('Problem ID Detection', () => {
@@ -123,4 +147,150 @@ describe('BOJ Mate Extension Tests', () => {
       assert.strictEqual(findProblemIdFromPath('/problems/test/main.py'), null);
     });
   });
+
+  describe('Checker', () => {
+    it('should compare exact output ignoring trailing whitespace', () => {
+      assert.strictEqual(compareOutput('1 2\n3', '1 2  \n3\n').passed, true);
+      assert.strictEqual(compareOutput('1 2\n3', '1  2\n3').passed, false);
+    });
+
+    it('should compare tokens ignoring whitespace', () => {
+      const checker = { type: 'token' as const };
+      assert.strictEqual(compareOutput('1 2\n3', '1\n2 3', checker).passed, true);
+      assert.strictEqual(compareOutput('1 2 3', '1 2', checker).passed, false);
+    });
+
+    it('should accept answers within absolute or relative error', () => {
+      const checker = { type: 'epsilon' as const, absoluteError: 1e-6, relativeError: 1e-6 };
+      assert.strictEqual(compareOutput('0.3333333333', '0.333333', checker).passed, true);
+      assert.strictEqual(compareOutput('1000000000', '1000000500', checker).passed, true);
+      assert.strictEqual(compareOutput('0.5', '0.51', checker).passed, false);
+    });
+
+    it('should compare lines regardless of order', () => {
+      const checker = { type: 'unordered' as const };
+      assert.strictEqual(compareOutput('a\nb\nc', 'c\na\nb', checker).passed, true);
+      assert.strictEqual(compareOutput('a\nb', 'a\na', checker).passed, false);
+    });
+
+    it('should find the first differing token', () => {
+      const diff = findFirstDifference('1 2\n3 4', '1 2\n3 5');
+      assert.strictEqual(diff?.line, 1);
+      assert.strictEqual(diff?.tokenIndex, 1);
+      assert.strictEqual(diff?.actualToken, '5');
+      assert.strictEqual(findFirstDifference('1 2', '1  2')?.whitespaceOnly, true);
+      assert.strictEqual(findFirstDifference('1 2', '1 2'), undefined);
+    });
+  });
+
+  describe('Diagnostics', () => {
+    it('should parse g++ and rustc error locations', () => {
+      const gcc = parseCompilerOutput("a.cpp: In function 'int main()':\na.cpp:2:11: error: 'y' was not declared in this scope", '/src');
+      assert.deepStrictEqual(gcc.map((d) => [d.file, d.line, d.column, d.level]), [['/src/a.cpp', 2, 11, 'error']]);
+
+      const rust = parseCompilerOutput('error[E0425]: cannot find value `b` in this scope\n --> a.rs:2:13\n', '/src');
+      assert.strictEqual(rust[0].line, 2);
+      assert.strictEqual(rust[0].message, 'cannot find value `b` in this scope');
+    });
+
+    it('should put the innermost Python frame first', () => {
+      const trace = 'Traceback (most recent call last):\n  File "/src/a.py", line 3, in <module>\n    f()\n' +
+        '  File "/src/a.py", line 2, in f\n    return 1/0\nZeroDivisionError: division by zero';
+      const frames = parseRuntimeTrace(trace, '/src');
+      assert.deepStrictEqual(frames.map((f) => f.line), [2, 3]);
+      assert.strictEqual(frames[0].message, 'ZeroDivisionError: division by zero');
+    });
+
+    it('should restore indentation for Python caret columns', () => {
+      const trace = '  File "/src/a.py", line 2\n    print(1 +)\n             ^\nSyntaxError: invalid syntax';
+      const frames = parseRuntimeTrace(trace, '/src', () => '        print(1 +)');
+      assert.strictEqual(frames[0].column, 18);
+    });
+  });
+
+  describe('Solved Query', () => {
+    it('should combine tags, ranges and solved filters', () => {
+      const query = buildSolvedQuery({
+        tierMin: 11,
+        tierMax: 15,
+        tags: ['dp', 'greedy'],
+        excludedTags: ['math'],
+        tagMode: 'or',
+        solvedMin: 1000,
+        averageTryMax: 2.5,
+        classLevel: 3,
+        solvedFilter: 'unsolved'
+      }, 'user');
+      assert.strictEqual(query,
+        'tier:11..15 (tag:dp | tag:greedy) !tag:math solved:1000.. average_try:..2.5 in_class:3 !s@user solvable:true');
+      assert.strictEqual(buildSolvedQuery({ text: '1000', solvedFilter: 'tried' }), 'id:1000 solvable:true');
+    });
+  });
+
+  describe('SSE', () => {
+    it('should join events split across chunks', () => {
+      const parser = new SseParser();
+      assert.deepStrictEqual(parser.push('event: content_block_delta\ndata: {"a"'), []);
+      assert.deepStrictEqual(parser.push(':1}\n\n: ping\n\ndata: [DONE]'), [
+        { event: 'content_block_delta', data: '{"a":1}' }
+      ]);
+      assert.deepStrictEqual(parser.flush(), [{ event: undefined, data: '[DONE]' }]);
+    });
+  });
+
+  describe('Event Stream', () => {
+    it('should decode messages split across chunks', () => {
+      const name = Buffer.from(':event-type');
+      const value = Buffer.from('contentBlockDelta');
+      const header = Buffer.concat([Buffer.from([name.length]), name, Buffer.from([7, 0, value.length]), value]);
+      const payload = Buffer.from('{"delta":{"text":"hi"}}');
+      const message = Buffer.alloc(12 + header.length + payload.length + 4);
+      message.writeUInt32BE(message.length, 0);
+      message.writeUInt32BE(header.length, 4);
+      header.copy(message, 12);
+      payload.copy(message, 12 + header.length);
+
+      const decoder = new EventStreamDecoder();
+      assert.deepStrictEqual(decoder.push(message.subarray(0, 20)), []);
+      const [decoded] = decoder.push(message.subarray(20));
+      assert.strictEqual(decoded.headers[':event-type'], 'contentBlockDelta');
+      assert.strictEqual(decoded.payload.toString(), '{"delta":{"text":"hi"}}');
+    });
+  });
+
+  describe('Hint Ladder', () => {
+    it('should unlock levels in order after the minimum interval', () => {
+      const minute = 60000;
+      assert.deepStrictEqual(getHintLadderState([], 0, 10 * minute), { unlocked: [], next: 'algorithm', waitMs: 0 });
+
+      const hints = [
+        { level: 'algorithm' as const, elapsed: 5 * minute },
+        { level: 'question' as const, elapsed: 8 * minute },
+        { level: 'algorithm' as const, elapsed: 12 * minute }
+      ];
+      const state = getHintLadderState(hints, 12 * minute, 10 * minute);
+      assert.deepStrictEqual(state.unlocked, ['algorithm']);
+      assert.strictEqual(state.next, 'stepByStep');
+      assert.strictEqual(state.waitMs, 3 * minute);
+    });
+  });
+
+  describe('Edge Cases', () => {
+    it('should parse fenced inputs and check them against constraints', () => {
+      const cases = parseEdgeCases('### 케이스 1: 최솟값\n```input\n1\n0\n```\n### 케이스 2: 범위 초과\n```input\n1\n2000000000\n```');
+      assert.deepStrictEqual(cases.map((c) => c.name), ['최솟값', '범위 초과']);
+      assert.strictEqual(cases[0].input, '1\n0\n');
+
+      const constraints = parseInputConstraints('첫째 줄에 N이 주어진다. (1 &le; N &le; 100,000) 둘째 줄에 A<sub>i</sub>가 주어진다. (-10<sup>9</sup> &lt; A<sub>i</sub> &lt; 10<sup>9</sup>)');
+      assert.deepStrictEqual(constraints, [
+        { names: ['N'], min: 1, max: 100000 },
+        { names: ['A_i'], min: -999999999, max: 999999999 }
+      ]);
+
+      const samples = ['3\n1 2 3\n'];
+      assert.deepStrictEqual(validateEdgeCase(cases[0].input, samples, constraints), []);
+      assert.strictEqual(validateEdgeCase(cases[1].input, samples, constraints).length, 1);
+      assert.strictEqual(validateEdgeCase('1 2\nx\n', samples, constraints).length, 2);
+    });
+  });
 });